@@ -1,5 +1,11 @@
 export const DEFAULT_WEEK_FORMAT = "gggg-[W]ww";
+export const DEFAULT_MONTH_FORMAT = "YYYY-MM";
+export const DEFAULT_QUARTER_FORMAT = "YYYY-[Q]Q";
+export const DEFAULT_YEAR_FORMAT = "YYYY";
 export const DEFAULT_WORDS_PER_DOT = 250;
+export const SETTINGS_VERSION = 1;
 export const VIEW_TYPE_CALENDAR = "calendar";
+export const VIEW_TYPE_YEAR_HEATMAP = "calendar-year-heatmap";
+export const VIEW_TYPE_FILES_TOUCHED = "calendar-files-touched";
 
 export const TRIGGER_ON_OPEN = "calendar:open";
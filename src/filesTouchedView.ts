@@ -0,0 +1,93 @@
+import type { Moment } from "moment";
+import { ItemView, TFile, ViewStateResult, WorkspaceLeaf } from "obsidian";
+
+import { VIEW_TYPE_FILES_TOUCHED } from "src/constants";
+
+import FilesTouched from "./ui/FilesTouched.svelte";
+
+/**
+ * Open the files touched panel, or reuse the one that's already open, and
+ * show the files touched on `date`.
+ */
+export async function showFilesTouched(date: Moment): Promise<void> {
+  const { workspace } = window.app;
+  const [existingLeaf] = workspace.getLeavesOfType(VIEW_TYPE_FILES_TOUCHED);
+  const leaf = existingLeaf ?? workspace.getRightLeaf(false);
+  await leaf.setViewState({
+    type: VIEW_TYPE_FILES_TOUCHED,
+    state: { date: date.format("YYYY-MM-DD") },
+  });
+  workspace.revealLeaf(leaf);
+}
+
+export default class FilesTouchedView extends ItemView {
+  private date: Moment;
+  private filesTouched: FilesTouched;
+
+  constructor(leaf: WorkspaceLeaf) {
+    super(leaf);
+
+    this.date = window.moment();
+    this.onChangeDate = this.onChangeDate.bind(this);
+    this.onClickFile = this.onClickFile.bind(this);
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_FILES_TOUCHED;
+  }
+
+  getDisplayText(): string {
+    return "Files touched";
+  }
+
+  getIcon(): string {
+    return "clock";
+  }
+
+  getState(): Record<string, unknown> {
+    return { ...super.getState(), date: this.date.format("YYYY-MM-DD") };
+  }
+
+  async setState(
+    state: { date?: string },
+    result: ViewStateResult
+  ): Promise<void> {
+    const date = window.moment(state?.date, "YYYY-MM-DD", true);
+    this.date = date.isValid() ? date : window.moment();
+    this.filesTouched?.$set({ date: this.date });
+    await super.setState(state, result);
+  }
+
+  onClose(): Promise<void> {
+    if (this.filesTouched) {
+      this.filesTouched.$destroy();
+    }
+    return Promise.resolve();
+  }
+
+  async onOpen(): Promise<void> {
+    this.filesTouched = new FilesTouched({
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      target: (this as any).contentEl,
+      props: {
+        date: this.date,
+        onChangeDate: this.onChangeDate,
+        onClickFile: this.onClickFile,
+      },
+    });
+  }
+
+  private onChangeDate(date: Moment): void {
+    this.date = date;
+    this.filesTouched.$set({ date });
+    this.app.workspace.requestSaveLayout();
+  }
+
+  private async onClickFile(file: TFile, inNewSplit: boolean): Promise<void> {
+    const { workspace } = this.app;
+    const leaf = inNewSplit
+      ? workspace.splitActiveLeaf()
+      : workspace.getUnpinnedLeaf();
+    await leaf.openFile(file);
+  }
+}
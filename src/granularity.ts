@@ -0,0 +1,425 @@
+import type { Moment } from "moment";
+import { normalizePath, TAbstractFile, TFile, TFolder, Vault } from "obsidian";
+import {
+  getDailyNoteSettings,
+  getWeeklyNoteSettings,
+} from "obsidian-daily-notes-interface";
+import { get } from "svelte/store";
+
+import {
+  DEFAULT_MONTH_FORMAT,
+  DEFAULT_QUARTER_FORMAT,
+  DEFAULT_YEAR_FORMAT,
+} from "src/constants";
+import { settings } from "src/settingsStore";
+
+export type IGranularity = "day" | "week" | "month" | "quarter" | "year";
+
+export interface IPeriodicNoteSettings {
+  format: string;
+  folder: string;
+  template: string;
+}
+
+export interface IGranularityConfig {
+  granularity: IGranularity;
+  /**
+   * Adjective used for this granularity, e.g. "daily". It doubles as the
+   * key of the granularity in the `periodic-notes` plugin's settings.
+   */
+  periodicity: string;
+  getSettings: () => Partial<IPeriodicNoteSettings>;
+  /**
+   * Whether the periods follow the fiscal year rather than the calendar
+   * year, e.g. quarters when the fiscal year starts in April.
+   */
+  isFiscal?: boolean;
+  /**
+   * Override how new notes are created. Defaults to filling in the
+   * configured template with `applyTemplate`.
+   */
+  createNote?: (date: Moment) => Promise<TFile>;
+}
+
+export class NotesFolderMissingError extends Error {}
+
+// The periodicities whose note settings the calendar stores itself
+type IBuiltInPeriodicity = "monthly" | "quarterly" | "yearly";
+
+type INoteSettingName = "Format" | "Folder" | "Template";
+
+const registry = new Map<IGranularity, IGranularityConfig>();
+
+/**
+ * Make a granularity known to the calendar. Indexing, lookup and
+ * creation of its notes are all driven by this config.
+ */
+export function registerGranularity(config: IGranularityConfig): void {
+  registry.set(config.granularity, config);
+}
+
+export function getGranularityConfig(
+  granularity: IGranularity
+): IGranularityConfig {
+  const config = registry.get(granularity);
+  if (!config) {
+    throw new Error(`Unknown granularity '${granularity}'`);
+  }
+  return config;
+}
+
+/**
+ * All registered granularities, from the finest to the coarsest.
+ */
+export function getGranularities(): IGranularity[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Whether the `periodic-notes` plugin manages the notes of `periodicity`,
+ * in which case its settings take precedence over the calendar's own.
+ */
+export function isManagedByPeriodicNotes(periodicity: string): boolean {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const pluginManager = (window.app as any).plugins;
+  const periodicNotes = pluginManager?.getPlugin("periodic-notes");
+  return !!periodicNotes?.settings?.[periodicity]?.enabled;
+}
+
+/**
+ * Read the note settings of `periodicity` from the `periodic-notes` plugin
+ * if it manages them, and from the calendar's own settings otherwise.
+ */
+function getBuiltInNoteSettings(
+  periodicity: IBuiltInPeriodicity,
+  defaultFormat: string
+): IPeriodicNoteSettings {
+  try {
+    let noteSettings;
+    if (isManagedByPeriodicNotes(periodicity)) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const pluginManager = (window.app as any).plugins;
+      const periodicNotes = pluginManager.getPlugin("periodic-notes");
+      noteSettings = periodicNotes.settings[periodicity];
+    } else {
+      const options = get(settings);
+      const getSetting = (name: INoteSettingName) =>
+        options[`${periodicity}Note${name}` as const];
+      noteSettings = {
+        format: getSetting("Format"),
+        folder: getSetting("Folder"),
+        template: getSetting("Template"),
+      };
+    }
+    return {
+      format: noteSettings.format || defaultFormat,
+      folder: noteSettings.folder?.trim() || "",
+      template: noteSettings.template?.trim() || "",
+    };
+  } catch (err) {
+    console.info(`No custom ${periodicity} note settings found!`, err);
+    return { format: defaultFormat, folder: "", template: "" };
+  }
+}
+
+export function getPeriodicNoteSettings(
+  granularity: IGranularity
+): IPeriodicNoteSettings {
+  const { format = "", folder = "", template = "" } =
+    getGranularityConfig(granularity).getSettings() || {};
+  return { format, folder, template };
+}
+
+/**
+ * Months from the start of the calendar year to the start of the fiscal
+ * year, e.g. 3 when the fiscal year starts in April.
+ */
+export function getFiscalYearOffset(): number {
+  const { fiscalYearStart } = get(settings);
+  return Number.isInteger(fiscalYearStart) ? fiscalYearStart - 1 : 0;
+}
+
+function getMonthOffset(granularity: IGranularity): number {
+  return getGranularityConfig(granularity).isFiscal
+    ? getFiscalYearOffset()
+    : 0;
+}
+
+/**
+ * Shift `date` into the fiscal calendar, where the fiscal year starts on
+ * January 1st. Format the result to get the fiscal quarter or year, which
+ * is named after the calendar year it starts in.
+ */
+export function toFiscalDate(date: Moment): Moment {
+  return date.clone().subtract(getFiscalYearOffset(), "months");
+}
+
+/**
+ * The first moment of the period that contains `date`.
+ */
+export function getPeriodStart(
+  date: Moment,
+  granularity: IGranularity
+): Moment {
+  const offset = getMonthOffset(granularity);
+  return date
+    .clone()
+    .subtract(offset, "months")
+    .startOf(granularity)
+    .add(offset, "months");
+}
+
+/**
+ * The last moment of the period that contains `date`.
+ */
+export function getPeriodEnd(date: Moment, granularity: IGranularity): Moment {
+  return getPeriodStart(date, granularity)
+    .add(1, granularity)
+    .subtract(1, "millisecond");
+}
+
+/**
+ * The name of the note of the period that contains `date`, optionally in
+ * another format than the configured one.
+ */
+export function formatNoteName(
+  date: Moment,
+  granularity: IGranularity,
+  format = getPeriodicNoteSettings(granularity).format
+): string {
+  return date
+    .clone()
+    .subtract(getMonthOffset(granularity), "months")
+    .format(format);
+}
+
+/**
+ * dateUID is a way of uniquely identifying periodic notes. They are
+ * prefixed with the granularity to avoid ambiguity. This matches the
+ * UIDs used by `obsidian-daily-notes-interface`, which the calendar
+ * grid uses to highlight the selected day or week.
+ */
+export function getDateUID(date: Moment, granularity: IGranularity): string {
+  const ts = getPeriodStart(date, granularity).format();
+  return `${granularity}-${ts}`;
+}
+
+function removeEscapedCharacters(format: string): string {
+  return format.replace(/\[[^\]]*\]/g, ""); // remove everything within brackets
+}
+
+/**
+ * XXX: When parsing dates that contain both week numbers and months,
+ * Moment choses to ignore the week numbers. For the week dateUID, we
+ * want the opposite behavior. Strip the MMM from the format to patch.
+ */
+function isFormatAmbiguous(format: string, granularity: IGranularity) {
+  if (granularity === "week") {
+    const cleanFormat = removeEscapedCharacters(format);
+    return (
+      /w{1,2}/i.test(cleanFormat) &&
+      (/M{1,4}/.test(cleanFormat) || /D{1,4}/.test(cleanFormat))
+    );
+  }
+  return false;
+}
+
+function parseFilename(
+  basename: string,
+  format: string,
+  granularity: IGranularity
+): Moment | null {
+  // Only the filename part of the format is matched against the basename
+  const filenameFormat = format.split("/").pop() || format;
+  let noteDate = window.moment(basename, filenameFormat, true);
+  if (!noteDate.isValid()) {
+    return null;
+  }
+
+  if (isFormatAmbiguous(filenameFormat, granularity)) {
+    noteDate = window.moment(
+      basename,
+      // If format contains week, remove day & month formatting
+      filenameFormat.replace(/M{1,4}/g, "").replace(/D{1,4}/g, ""),
+      false
+    );
+  }
+  // Fiscal periods are named after the shifted date
+  return noteDate.add(getMonthOffset(granularity), "months");
+}
+
+function getDateFromBasename(
+  basename: string,
+  granularity: IGranularity
+): Moment | null {
+  const { format } = getPeriodicNoteSettings(granularity);
+  return parseFilename(basename, format, granularity);
+}
+
+/**
+ * Check that notes named with `format` can be found again, i.e. that the
+ * filename it produces is valid and reads back as the same period.
+ * Returns a description of the problem, or null if there is none.
+ */
+export function validateFormat(
+  format: string,
+  granularity: IGranularity
+): string | null {
+  const date = getPeriodStart(window.moment(), granularity);
+  const path = formatNoteName(date, granularity, format);
+  const filename = path.split("/").pop();
+  if (!filename) {
+    return "The format produces an empty filename";
+  }
+  if (/[\\:*?"<>|]/.test(path)) {
+    return "The format produces characters that can't be used in filenames";
+  }
+
+  const weekError = granularity === "week" && validateWeekFormat(format);
+  if (weekError) {
+    return weekError;
+  }
+
+  const parsedDate = parseFilename(filename, format, granularity);
+  if (!parsedDate || !getPeriodStart(parsedDate, granularity).isSame(date)) {
+    return "The calendar can't read the date back from this format, so it won't find notes named like this";
+  }
+  return null;
+}
+
+/**
+ * Whether Moment's locale weeks are ISO 8601 weeks: they start on Monday,
+ * and the first week of the year contains January 4th.
+ */
+export function hasIsoWeeks(): boolean {
+  const localeData = window.moment.localeData();
+  return localeData.firstDayOfWeek() === 1 && localeData.firstDayOfYear() === 4;
+}
+
+/**
+ * Weeks around New Year belong to the wrong note when the format numbers
+ * them differently from the calendar.
+ */
+function validateWeekFormat(format: string): string | null {
+  const cleanFormat = removeEscapedCharacters(format);
+  const usesIsoWeeks = /[WGE]/.test(cleanFormat);
+  const usesLocaleWeeks = /[wge]/.test(cleanFormat);
+
+  if (usesIsoWeeks && usesLocaleWeeks) {
+    return "The format mixes ISO weeks (W, GGGG) with locale weeks (w, gggg)";
+  }
+  if (usesIsoWeeks && !hasIsoWeeks()) {
+    return "The format numbers weeks by ISO 8601 (W, GGGG), but the calendar numbers them by locale. Set 'Week numbering' to ISO 8601, or use w and gggg instead";
+  }
+  if (/Y/.test(cleanFormat) && (usesIsoWeeks || usesLocaleWeeks)) {
+    return "YYYY is the calendar year, which differs from the year of the week around New Year. Use gggg (or GGGG for ISO weeks) instead";
+  }
+  return null;
+}
+
+export function getDateFromFile(
+  file: TAbstractFile,
+  granularity: IGranularity
+): Moment | null {
+  if (!(file instanceof TFile)) {
+    return null;
+  }
+  return getDateFromBasename(file.basename, granularity);
+}
+
+/**
+ * Like `getDateFromFile`, for a path that may no longer exist, such as
+ * the old path of a renamed note.
+ */
+export function getDateFromPath(
+  path: string,
+  granularity: IGranularity
+): Moment | null {
+  const filename = path.split("/").pop();
+  const extensionIndex = filename.lastIndexOf(".");
+  const basename =
+    extensionIndex > 0 ? filename.slice(0, extensionIndex) : filename;
+  return getDateFromBasename(basename, granularity);
+}
+
+/**
+ * Whether `file` lives in the folder that is indexed for `granularity`.
+ */
+export function isInNotesFolder(
+  file: TAbstractFile,
+  granularity: IGranularity
+): boolean {
+  const { folder } = getPeriodicNoteSettings(granularity);
+  const folderPath = normalizePath(folder);
+  return folderPath === "/" || file.path.startsWith(`${folderPath}/`);
+}
+
+/**
+ * Index every note of the given granularity by its dateUID.
+ */
+export function getAllPeriodicNotes(
+  granularity: IGranularity
+): Record<string, TFile> {
+  const { vault } = window.app;
+  const { periodicity } = getGranularityConfig(granularity);
+  const { folder } = getPeriodicNoteSettings(granularity);
+
+  const notesFolder = vault.getAbstractFileByPath(normalizePath(folder));
+  if (!(notesFolder instanceof TFolder)) {
+    throw new NotesFolderMissingError(
+      `Failed to find ${periodicity} notes folder`
+    );
+  }
+
+  const notes: Record<string, TFile> = {};
+  Vault.recurseChildren(notesFolder, (note) => {
+    if (note instanceof TFile) {
+      const date = getDateFromFile(note, granularity);
+      if (date) {
+        notes[getDateUID(date, granularity)] = note;
+      }
+    }
+  });
+  return notes;
+}
+
+export function getPeriodicNote(
+  date: Moment,
+  granularity: IGranularity,
+  notes: Record<string, TFile>
+): TFile | null {
+  return notes?.[getDateUID(date, granularity)] ?? null;
+}
+
+registerGranularity({
+  granularity: "day",
+  periodicity: "daily",
+  getSettings: getDailyNoteSettings,
+});
+
+registerGranularity({
+  granularity: "week",
+  periodicity: "weekly",
+  getSettings: getWeeklyNoteSettings,
+});
+
+registerGranularity({
+  granularity: "month",
+  periodicity: "monthly",
+  getSettings: () => getBuiltInNoteSettings("monthly", DEFAULT_MONTH_FORMAT),
+});
+
+registerGranularity({
+  granularity: "quarter",
+  periodicity: "quarterly",
+  getSettings: () =>
+    getBuiltInNoteSettings("quarterly", DEFAULT_QUARTER_FORMAT),
+  isFiscal: true,
+});
+
+registerGranularity({
+  granularity: "year",
+  periodicity: "yearly",
+  getSettings: () => getBuiltInNoteSettings("yearly", DEFAULT_YEAR_FORMAT),
+  isFiscal: true,
+});
@@ -0,0 +1,72 @@
+import type { Moment } from "moment";
+import { ItemView, TAbstractFile, WorkspaceLeaf } from "obsidian";
+import { get } from "svelte/store";
+
+import { VIEW_TYPE_YEAR_HEATMAP } from "src/constants";
+import { getDateFromFile } from "src/granularity";
+import { openOrCreatePeriodicNote } from "src/io/periodicNotes";
+
+import YearHeatmap from "./ui/YearHeatmap.svelte";
+import { activeFile, settings } from "./ui/stores";
+
+export default class YearHeatmapView extends ItemView {
+  private heatmap: YearHeatmap;
+
+  constructor(leaf: WorkspaceLeaf) {
+    super(leaf);
+
+    this.onClickDay = this.onClickDay.bind(this);
+    this.onFileModified = this.onFileModified.bind(this);
+
+    // Created, deleted and renamed notes reach the heatmap through the
+    // `dailyNotes` store; edits to existing notes don't.
+    this.registerEvent(this.app.vault.on("modify", this.onFileModified));
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_YEAR_HEATMAP;
+  }
+
+  getDisplayText(): string {
+    return "Year heatmap";
+  }
+
+  getIcon(): string {
+    return "calendar-with-checkmark";
+  }
+
+  onClose(): Promise<void> {
+    if (this.heatmap) {
+      this.heatmap.$destroy();
+    }
+    return Promise.resolve();
+  }
+
+  async onOpen(): Promise<void> {
+    this.heatmap = new YearHeatmap({
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      target: (this as any).contentEl,
+      props: {
+        onClickDay: this.onClickDay,
+      },
+    });
+  }
+
+  private async onClickDay(date: Moment, inNewSplit: boolean): Promise<void> {
+    await openOrCreatePeriodicNote(
+      date,
+      "day",
+      inNewSplit,
+      get(settings),
+      (file) => {
+        activeFile.setFile(file);
+      }
+    );
+  }
+
+  private onFileModified(file: TAbstractFile): void {
+    if (getDateFromFile(file, "day") && this.heatmap) {
+      this.heatmap.tick();
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import type { Moment } from "moment";
+import type { TFile } from "obsidian";
+
+const FRONTMATTER_REGEX = /^---\r?\n(?:([\s\S]*?)\r?\n)?---(\r?\n|$)/;
+
+/**
+ * Append a link to each of `files` to the end of `note`, one per line.
+ */
+export async function appendLinks(note: TFile, files: TFile[]): Promise<void> {
+  const { fileManager, vault } = window.app;
+  const links = files
+    .filter((file) => file !== note)
+    .map((file) => `- ${fileManager.generateMarkdownLink(file, note.path)}`);
+  if (!links.length) {
+    return;
+  }
+
+  const contents = await vault.read(note);
+  const separator = contents === "" || contents.endsWith("\n") ? "" : "\n";
+  await vault.modify(note, `${contents}${separator}${links.join("\n")}\n`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Set a date property, `date` by default, in the frontmatter of a note,
+ * adding the frontmatter if the note doesn't have any.
+ */
+export async function setDateProperty(
+  note: TFile,
+  date: Moment,
+  property = "date"
+): Promise<void> {
+  const { vault } = window.app;
+  const dateLine = `${property}: ${date.format("YYYY-MM-DD")}`;
+  const propertyRegex = new RegExp(`^${escapeRegExp(property)}:.*$`, "m");
+  const contents = await vault.read(note);
+
+  const match = contents.match(FRONTMATTER_REGEX);
+  if (!match) {
+    await vault.modify(note, `---\n${dateLine}\n---\n${contents}`);
+    return;
+  }
+
+  const [frontmatter, properties = "", lineBreak] = match;
+  let nextProperties = properties.replace(propertyRegex, dateLine);
+  if (!propertyRegex.test(properties)) {
+    nextProperties = properties ? `${properties}\n${dateLine}` : dateLine;
+  }
+  await vault.modify(
+    note,
+    `---\n${nextProperties}\n---${lineBreak}${contents.slice(
+      frontmatter.length
+    )}`
+  );
+}
@@ -0,0 +1,71 @@
+import type { Moment } from "moment";
+import type { TFile } from "obsidian";
+import { get } from "svelte/store";
+
+import {
+  formatNoteName,
+  getPeriodicNote,
+  getPeriodStart,
+  IGranularity,
+} from "src/granularity";
+import { getNotesStore } from "src/ui/stores";
+
+import { createPeriodicNote } from "./periodicNotes";
+
+export interface IBackfillResult {
+  created: TFile[];
+  failed: { date: Moment; error: Error }[];
+}
+
+/**
+ * The start of every period between `start` and `end` that doesn't have
+ * a note yet.
+ */
+export function getMissingPeriods(
+  start: Moment,
+  end: Moment,
+  granularity: IGranularity
+): Moment[] {
+  const notes = get(getNotesStore(granularity));
+  const missing = [];
+  for (
+    let date = getPeriodStart(start, granularity);
+    date.isSameOrBefore(end, "day");
+    date = date.clone().add(1, granularity)
+  ) {
+    if (!getPeriodicNote(date, granularity, notes)) {
+      missing.push(date);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Create the notes for all of `dates` from the configured template, one
+ * after the other. A note that fails to be created doesn't stop the
+ * others, but `isCancelled` does.
+ */
+export async function backfillPeriodicNotes(
+  dates: Moment[],
+  granularity: IGranularity,
+  onProgress?: (result: IBackfillResult) => void,
+  isCancelled?: () => boolean
+): Promise<IBackfillResult> {
+  const result: IBackfillResult = { created: [], failed: [] };
+  for (const date of dates) {
+    if (isCancelled?.()) {
+      break;
+    }
+    try {
+      result.created.push(await createPeriodicNote(date, granularity));
+    } catch (error) {
+      console.error(
+        `Failed to create the note for ${formatNoteName(date, granularity)}`,
+        error
+      );
+      result.failed.push({ date, error });
+    }
+    onProgress?.(result);
+  }
+  return result;
+}
@@ -0,0 +1,192 @@
+import moment from "moment";
+import { TextEncoder } from "util";
+
+import { formatCalendar, getEventsOn, parseEvents } from "./ics";
+
+function calendar(...lines: string[]): string {
+  return ["BEGIN:VCALENDAR", ...lines, "END:VCALENDAR"].join("\r\n");
+}
+
+function event(...lines: string[]): string[] {
+  return ["BEGIN:VEVENT", ...lines, "END:VEVENT"];
+}
+
+function getDaysWithEvents(contents: string, from: string, to: string) {
+  const events = parseEvents(contents);
+  const days = [];
+  for (
+    const day = moment(from);
+    day.isSameOrBefore(to, "day");
+    day.add(1, "day")
+  ) {
+    if (getEventsOn(events, day).length) {
+      days.push(day.format("YYYY-MM-DD"));
+    }
+  }
+  return days;
+}
+
+describe("parseEvents", () => {
+  beforeAll(() => {
+    window.moment = moment;
+  });
+
+  test("reads timed and all-day events", () => {
+    const events = parseEvents(
+      calendar(
+        ...event(
+          "UID:1",
+          "SUMMARY:Standup\\, daily",
+          "DTSTART:20210301T090000",
+          "DTEND:20210301T091500"
+        ),
+        ...event("UID:2", "SUMMARY:Holiday", "DTSTART;VALUE=DATE:20210302")
+      )
+    );
+
+    expect(events).toHaveLength(2);
+    expect(events[0].summary).toEqual("Standup, daily");
+    expect(events[0].isAllDay).toBe(false);
+    expect(events[0].end.format("HH:mm")).toEqual("09:15");
+    expect(events[1].isAllDay).toBe(true);
+    expect(events[1].end.format("YYYY-MM-DD")).toEqual("2021-03-03");
+  });
+
+  test("unfolds long lines", () => {
+    const [{ summary }] = parseEvents(
+      calendar(
+        ...event("UID:1", "SUMMARY:A long", "  summary", "DTSTART:20210301")
+      )
+    );
+
+    expect(summary).toEqual("A long summary");
+  });
+
+  test("ends a weekly rule after COUNT occurrences", () => {
+    const contents = calendar(
+      ...event(
+        "UID:1",
+        "DTSTART;VALUE=DATE:20210301",
+        "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=3"
+      )
+    );
+
+    expect(getDaysWithEvents(contents, "2021-03-01", "2021-03-31")).toEqual([
+      "2021-03-01",
+      "2021-03-03",
+      "2021-03-15",
+    ]);
+  });
+
+  test("counts occurrences of a yearly rule in its months only", () => {
+    const [{ rule }] = parseEvents(
+      calendar(
+        ...event(
+          "UID:1",
+          "DTSTART;VALUE=DATE:20210101",
+          "RRULE:FREQ=YEARLY;BYMONTH=1,7;BYMONTHDAY=1,15;COUNT=6"
+        )
+      )
+    );
+
+    expect(rule.until).toEqual("2022-01-15");
+  });
+
+  test("finds the last weekday of a month", () => {
+    const contents = calendar(
+      ...event(
+        "UID:1",
+        "DTSTART;VALUE=DATE:20210129",
+        "RRULE:FREQ=MONTHLY;BYDAY=-1FR"
+      )
+    );
+
+    expect(getDaysWithEvents(contents, "2021-02-01", "2021-04-30")).toEqual([
+      "2021-02-26",
+      "2021-03-26",
+      "2021-04-30",
+    ]);
+  });
+
+  test("skips excluded and moved occurrences", () => {
+    const contents = calendar(
+      ...event(
+        "UID:1",
+        "DTSTART:20210301T090000",
+        "RRULE:FREQ=DAILY;UNTIL=20210305T090000",
+        "EXDATE:20210302T090000"
+      ),
+      ...event(
+        "UID:1",
+        "RECURRENCE-ID:20210303T090000",
+        "DTSTART:20210310T090000"
+      )
+    );
+
+    expect(getDaysWithEvents(contents, "2021-03-01", "2021-03-31")).toEqual([
+      "2021-03-01",
+      "2021-03-04",
+      "2021-03-05",
+      "2021-03-10",
+    ]);
+  });
+
+  test("shows only the first occurrence of an unsupported rule", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => null);
+    const contents = calendar(
+      ...event(
+        "UID:1",
+        "DTSTART;VALUE=DATE:20210301",
+        "RRULE:FREQ=MONTHLY;BYDAY=MO,TU;BYSETPOS=-1"
+      )
+    );
+
+    expect(getDaysWithEvents(contents, "2021-03-01", "2021-05-31")).toEqual([
+      "2021-03-01",
+    ]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe("formatCalendar", () => {
+  beforeAll(() => {
+    Object.assign(window, { TextEncoder });
+  });
+
+  function getSummaryLines(summary: string): string[] {
+    const lines = formatCalendar([
+      { type: "VTODO", properties: [`SUMMARY:${summary}`] },
+    ]).split("\r\n");
+    const start = lines.findIndex((line) => line.startsWith("SUMMARY:"));
+    const end = lines.findIndex((line) => line === "END:VTODO");
+    return lines.slice(start, end);
+  }
+
+  test("keeps short lines as they are", () => {
+    expect(getSummaryLines("Water the plants")).toEqual([
+      "SUMMARY:Water the plants",
+    ]);
+  });
+
+  test("folds lines at 75 octets", () => {
+    const lines = getSummaryLines("x".repeat(200));
+
+    expect(lines.map((line) => line.length)).toEqual([75, 75, 60]);
+    expect(lines.slice(1).every((line) => line.startsWith(" "))).toBe(true);
+  });
+
+  test("doesn't split multibyte characters", () => {
+    const summary = "Pay rent 📅 2021-03-01 ✅ 2021-02-27 ".repeat(4);
+    const lines = getSummaryLines(summary);
+    const encoder = new TextEncoder();
+
+    lines.forEach((line) => {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toMatch(/[\ud800-\udbff](?![\udc00-\udfff])/);
+    });
+    expect(
+      lines.map((line, i) => (i === 0 ? line : line.slice(1))).join("")
+    ).toEqual(`SUMMARY:${summary}`);
+  });
+});
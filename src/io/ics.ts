@@ -0,0 +1,573 @@
+import type { Moment, unitOfTime } from "moment";
+import type { TFile } from "obsidian";
+
+type IFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+interface IRecurrenceRule {
+  frequency: IFrequency;
+  interval: number;
+  // The last day an occurrence may start on, formatted as YYYY-MM-DD
+  until: string | null;
+  count: number | null;
+  // Weekdays, optionally with an ordinal for monthly rules: "MO", "-1FR"
+  byDay: string[];
+  byMonthDay: number[];
+  // 1-based, like in the iCalendar spec
+  byMonth: number[];
+}
+
+export interface ICalendarEvent {
+  uid: string;
+  summary: string;
+  location: string;
+  start: Moment;
+  // Exclusive, so an all-day event on a single day ends the day after
+  end: Moment;
+  isAllDay: boolean;
+  rule: IRecurrenceRule | null;
+  // Days on which a recurring event doesn't take place, as YYYY-MM-DD
+  exceptions: string[];
+}
+
+export interface IEventOccurrence {
+  event: ICalendarEvent;
+  start: Moment;
+  end: Moment;
+}
+
+export interface ICalendarComponent {
+  type: "VEVENT" | "VTODO";
+  // Already formatted, e.g. `SUMMARY:Standup`
+  properties: string[];
+}
+
+interface IProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const PROPERTY_REGEX = /^([^:;]+)((?:;[^:;=]+=(?:"[^"]*"|[^:;]*))*):(.*)$/;
+const PARAM_REGEX = /;([^:;=]+)=("[^"]*"|[^:;]*)/g;
+const DATE_REGEX = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+const DURATION_REGEX = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+// Calendars exported from the vault are skipped when reading events
+export const EXPORT_PRODID = "-//obsidian-calendar//Calendar export//EN";
+// Lines longer than this many octets are folded, see RFC 5545 section 3.1
+const MAX_LINE_OCTETS = 75;
+// Don't look further than this for the occurrences of a counted rule
+const MAX_COUNTED_YEARS = 100;
+// Rule parts that select occurrences the calendar can't compute. Events
+// with them only show their first occurrence, instead of wrong ones.
+const UNSUPPORTED_RULE_PARTS = [
+  "BYSETPOS",
+  "BYWEEKNO",
+  "BYYEARDAY",
+  "BYHOUR",
+  "BYMINUTE",
+  "BYSECOND",
+];
+// Each period of a rule starts at the start of this unit
+const PERIOD_UNITS: Record<IFrequency, unitOfTime.StartOf> = {
+  DAILY: "day",
+  WEEKLY: "isoWeek",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+const PERIOD_LENGTHS: Record<IFrequency, unitOfTime.DurationConstructor> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char) =>
+    char.toLowerCase() === "n" ? "\n" : char
+  );
+}
+
+function parseProperty(line: string): IProperty | null {
+  const match = line.match(PROPERTY_REGEX);
+  if (!match) {
+    return null;
+  }
+  const [, name, paramText, value] = match;
+  const params: Record<string, string> = {};
+  for (const [, key, paramValue] of paramText.matchAll(PARAM_REGEX)) {
+    params[key.toUpperCase()] = paramValue.replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value };
+}
+
+/**
+ * Dates with a TZID are read as local time: there's no timezone database
+ * to convert them with.
+ */
+function parseDate({ params, value }: IProperty): Moment | null {
+  const match = value.trim().match(DATE_REGEX);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour = "00", minute = "00", second = "00"] = match;
+  const text = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+  if (match[7]) {
+    return window.moment.utc(text).local();
+  }
+  return params.VALUE === "DATE" || !match[4]
+    ? window.moment(text).startOf("day")
+    : window.moment(text);
+}
+
+function addDuration(start: Moment, value: string): Moment {
+  const match = value.trim().match(DURATION_REGEX);
+  if (!match) {
+    return start.clone();
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const direction = sign === "-" ? -1 : 1;
+  const toNumber = (part: string) => direction * parseInt(part || "0", 10);
+  return start
+    .clone()
+    .add(toNumber(weeks), "weeks")
+    .add(toNumber(days), "days")
+    .add(toNumber(hours), "hours")
+    .add(toNumber(minutes), "minutes")
+    .add(toNumber(seconds), "seconds");
+}
+
+function parseRule(value: string): IRecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  value.split(";").forEach((part) => {
+    const [key, partValue = ""] = part.split("=");
+    parts[key.toUpperCase()] = partValue.toUpperCase();
+  });
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(parts.FREQ)) {
+    return null;
+  }
+  const unsupportedParts = UNSUPPORTED_RULE_PARTS.filter((part) => parts[part]);
+  if (unsupportedParts.length) {
+    console.warn(
+      "[Calendar] Showing only the first occurrence of a rule with",
+      unsupportedParts.join(", ")
+    );
+    return null;
+  }
+
+  const toList = (text = "") => text.split(",").filter(Boolean);
+  const until = parts.UNTIL
+    ? parseDate({ name: "UNTIL", params: {}, value: parts.UNTIL })
+    : null;
+  return {
+    frequency: parts.FREQ as IFrequency,
+    interval: Math.max(parseInt(parts.INTERVAL || "1", 10) || 1, 1),
+    until: until ? until.format("YYYY-MM-DD") : null,
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : null,
+    byDay: toList(parts.BYDAY),
+    byMonthDay: toList(parts.BYMONTHDAY).map(Number),
+    byMonth: toList(parts.BYMONTH).map(Number),
+  };
+}
+
+/**
+ * Whether the nth weekday of a month, e.g. "2TU" or "-1FR", falls on
+ * `date`.
+ */
+function matchesOrdinalWeekday(date: Moment, byDay: string): boolean {
+  const match = byDay.match(/^([+-]?\d+)?([A-Z]{2})$/);
+  if (!match || WEEKDAYS.indexOf(match[2]) !== date.day()) {
+    return false;
+  }
+  if (!match[1]) {
+    return true;
+  }
+  const ordinal = parseInt(match[1], 10);
+  if (ordinal > 0) {
+    return Math.ceil(date.date() / 7) === ordinal;
+  }
+  return Math.ceil((date.daysInMonth() - date.date() + 1) / 7) === -ordinal;
+}
+
+/**
+ * Whether `day` of BYMONTHDAY, which counts from the end of the month
+ * when negative, falls on `date`.
+ */
+function matchesMonthDay(date: Moment, day: number): boolean {
+  return day === date.date() || day === date.date() - date.daysInMonth() - 1;
+}
+
+/**
+ * Whether the rule lets an occurrence start on `date`, ignoring its end.
+ */
+function matchesRule(
+  rule: IRecurrenceRule,
+  start: Moment,
+  date: Moment
+): boolean {
+  const { frequency, interval, byDay, byMonthDay, byMonth } = rule;
+  const startDay = start.clone().startOf("day");
+  if (date.isBefore(startDay)) {
+    return false;
+  }
+  if (byMonth.length && !byMonth.includes(date.month() + 1)) {
+    return false;
+  }
+
+  switch (frequency) {
+    case "DAILY":
+      return (
+        date.diff(startDay, "days") % interval === 0 &&
+        (!byMonthDay.length ||
+          byMonthDay.some((day) => matchesMonthDay(date, day))) &&
+        (!byDay.length || byDay.some((day) => matchesOrdinalWeekday(date, day)))
+      );
+    case "WEEKLY": {
+      const weeks = date
+        .clone()
+        .startOf("isoWeek")
+        .diff(startDay.clone().startOf("isoWeek"), "weeks");
+      const weekdays = byDay.length ? byDay : [WEEKDAYS[start.day()]];
+      return (
+        weeks % interval === 0 && weekdays.includes(WEEKDAYS[date.day()])
+      );
+    }
+    case "MONTHLY": {
+      const months =
+        (date.year() - startDay.year()) * 12 +
+        date.month() -
+        startDay.month();
+      if (months % interval !== 0) {
+        return false;
+      }
+      if (byMonthDay.length) {
+        return byMonthDay.some((day) => matchesMonthDay(date, day));
+      }
+      if (byDay.length) {
+        return byDay.some((day) => matchesOrdinalWeekday(date, day));
+      }
+      return date.date() === start.date();
+    }
+    case "YEARLY": {
+      const years = date.year() - startDay.year();
+      const months = byMonth.length ? byMonth : [start.month() + 1];
+      if (years % interval !== 0 || !months.includes(date.month() + 1)) {
+        return false;
+      }
+      if (byDay.length) {
+        return byDay.some((day) => matchesOrdinalWeekday(date, day));
+      }
+      if (byMonthDay.length) {
+        return byMonthDay.some((day) => matchesMonthDay(date, day));
+      }
+      return date.date() === start.date();
+    }
+  }
+}
+
+/**
+ * The days of the period starting on `periodStart` that an occurrence of
+ * the rule may start on, in order. Yearly rules only take place in a few
+ * months, so the other months aren't listed.
+ */
+function getDaysOfPeriod(
+  rule: IRecurrenceRule,
+  start: Moment,
+  periodStart: Moment
+): Moment[] {
+  const ranges: [Moment, Moment][] = [];
+  if (rule.frequency === "YEARLY") {
+    const months = rule.byMonth.length ? rule.byMonth : [start.month() + 1];
+    [...months]
+      .sort((a, b) => a - b)
+      .forEach((month) => {
+        const monthStart = periodStart.clone().month(month - 1);
+        ranges.push([monthStart, monthStart.clone().add(1, "month")]);
+      });
+  } else {
+    const length = PERIOD_LENGTHS[rule.frequency];
+    ranges.push([periodStart, periodStart.clone().add(1, length)]);
+  }
+
+  const days = [];
+  ranges.forEach(([from, to]) => {
+    for (const day = from.clone(); day.isBefore(to); day.add(1, "day")) {
+      days.push(day.clone());
+    }
+  });
+  return days;
+}
+
+/**
+ * Turn the COUNT of a rule into the day of its last occurrence, so that
+ * looking up a single day doesn't need to walk all earlier occurrences.
+ * Only the periods the rule repeats in are walked, e.g. every other week.
+ */
+function resolveCount(event: ICalendarEvent): void {
+  const { rule, start } = event;
+  if (!rule?.count) {
+    return;
+  }
+
+  let remaining = rule.count;
+  const startDay = start.clone().startOf("day");
+  const lastDay = startDay.clone().add(MAX_COUNTED_YEARS, "years");
+  for (
+    const periodStart = startDay.clone().startOf(PERIOD_UNITS[rule.frequency]);
+    periodStart.isBefore(lastDay);
+    periodStart.add(rule.interval, PERIOD_LENGTHS[rule.frequency])
+  ) {
+    for (const day of getDaysOfPeriod(rule, start, periodStart)) {
+      if (!matchesRule(rule, start, day)) {
+        continue;
+      }
+      // Excluded occurrences still count towards the rule
+      remaining--;
+      if (remaining === 0) {
+        rule.until = day.format("YYYY-MM-DD");
+        return;
+      }
+    }
+  }
+}
+
+function createEvent(properties: IProperty[]): ICalendarEvent | null {
+  const get = (name: string) => properties.find((p) => p.name === name);
+  const startProperty = get("DTSTART");
+  const start = startProperty ? parseDate(startProperty) : null;
+  if (!start) {
+    return null;
+  }
+
+  const isAllDay =
+    startProperty.params.VALUE === "DATE" ||
+    !startProperty.value.includes("T");
+  const endProperty = get("DTEND");
+  const durationProperty = get("DURATION");
+  let end = endProperty ? parseDate(endProperty) : null;
+  if (!end && durationProperty) {
+    end = addDuration(start, durationProperty.value);
+  }
+  if (!end || !end.isAfter(start)) {
+    end = isAllDay ? start.clone().add(1, "day") : start.clone();
+  }
+
+  const exceptions = properties
+    .filter((p) => p.name === "EXDATE")
+    .flatMap((p) =>
+      p.value.split(",").map((value) => parseDate({ ...p, value }))
+    )
+    .filter(Boolean)
+    .map((date) => date.format("YYYY-MM-DD"));
+
+  const ruleProperty = get("RRULE");
+  const event: ICalendarEvent = {
+    uid: get("UID")?.value ?? "",
+    summary: unescapeText(get("SUMMARY")?.value ?? ""),
+    location: unescapeText(get("LOCATION")?.value ?? ""),
+    start,
+    end,
+    isAllDay,
+    rule: ruleProperty ? parseRule(ruleProperty.value) : null,
+    exceptions,
+  };
+  resolveCount(event);
+  return event;
+}
+
+/**
+ * Read the events of an iCalendar (.ics) file. Recurring events are kept
+ * as a single event with a rule; moved or changed occurrences become
+ * events of their own.
+ *
+ * Rules support FREQ, INTERVAL, UNTIL, COUNT, BYDAY, BYMONTHDAY and
+ * BYMONTH. EXDATE excludes whole days, so it can't skip one of several
+ * occurrences on the same day. RDATE is ignored, and events with the rule
+ * parts in `UNSUPPORTED_RULE_PARTS` only show their first occurrence.
+ */
+export function parseEvents(contents: string): ICalendarEvent[] {
+  const lines = contents.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  const events: ICalendarEvent[] = [];
+  const overrides: { uid: string; date: string }[] = [];
+  let properties: IProperty[] = null;
+  lines.forEach((line) => {
+    if (line === "BEGIN:VEVENT") {
+      properties = [];
+    } else if (line === "END:VEVENT" && properties) {
+      const event = createEvent(properties);
+      const recurrenceId = properties.find((p) => p.name === "RECURRENCE-ID");
+      const recurrenceDate = recurrenceId ? parseDate(recurrenceId) : null;
+      if (event && recurrenceDate) {
+        overrides.push({
+          uid: event.uid,
+          date: recurrenceDate.format("YYYY-MM-DD"),
+        });
+      }
+      if (event) {
+        events.push(event);
+      }
+      properties = null;
+    } else if (properties) {
+      const property = parseProperty(line);
+      if (property) {
+        properties.push(property);
+      }
+    }
+  });
+
+  overrides.forEach(({ uid, date }) => {
+    events
+      .filter((event) => event.uid === uid && event.rule)
+      .forEach((event) => event.exceptions.push(date));
+  });
+  return events;
+}
+
+export async function getEvents(file: TFile): Promise<ICalendarEvent[]> {
+  const contents = await window.app.vault.cachedRead(file);
+  if (contents.includes(`PRODID:${EXPORT_PRODID}`)) {
+    return [];
+  }
+  return parseEvents(contents);
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Split a line by its length in UTF-8, between characters so that emoji
+ * and other multibyte characters stay whole.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks = [];
+  let chunk = "";
+  let octets = 0;
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    if (octets + charOctets > MAX_LINE_OCTETS) {
+      chunks.push(chunk);
+      // Continuation lines start with a space, which counts too
+      chunk = " ";
+      octets = 1;
+    }
+    chunk += char;
+    octets += charOctets;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n");
+}
+
+export function formatCalendar(components: ICalendarComponent[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${EXPORT_PRODID}`,
+    "CALSCALE:GREGORIAN",
+    ...components.flatMap(({ type, properties }) => [
+      `BEGIN:${type}`,
+      ...properties,
+      `END:${type}`,
+    ]),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * The occurrences of an event that take place, at least partly, on `date`.
+ */
+function getOccurrencesOn(
+  event: ICalendarEvent,
+  date: Moment
+): IEventOccurrence[] {
+  const { rule, start, end, exceptions } = event;
+  const dayStart = date.clone().startOf("day");
+  const dayEnd = dayStart.clone().add(1, "day");
+  const overlaps = (occurrenceStart: Moment, occurrenceEnd: Moment) =>
+    occurrenceStart.isBefore(dayEnd) &&
+    (occurrenceEnd.isAfter(dayStart) ||
+      (occurrenceStart.isSame(occurrenceEnd) &&
+        !occurrenceStart.isBefore(dayStart)));
+
+  if (!rule) {
+    return overlaps(start, end) ? [{ event, start, end }] : [];
+  }
+
+  // An occurrence that started on an earlier day may still be going on
+  const duration = end.diff(start);
+  const spannedDays = Math.max(
+    end.clone().startOf("day").diff(start.clone().startOf("day"), "days"),
+    0
+  );
+  const occurrences = [];
+  for (let offset = spannedDays; offset >= 0; offset--) {
+    const day = dayStart.clone().subtract(offset, "days");
+    const dayText = day.format("YYYY-MM-DD");
+    if (
+      (rule.until && dayText > rule.until) ||
+      exceptions.includes(dayText) ||
+      !matchesRule(rule, start, day)
+    ) {
+      continue;
+    }
+    const occurrenceStart = day.clone().set({
+      hour: start.hour(),
+      minute: start.minute(),
+      second: start.second(),
+    });
+    const occurrenceEnd = occurrenceStart.clone().add(duration);
+    if (overlaps(occurrenceStart, occurrenceEnd)) {
+      occurrences.push({ event, start: occurrenceStart, end: occurrenceEnd });
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Every occurrence on `date`, all-day events first and then by start time.
+ */
+export function getEventsOn(
+  events: ICalendarEvent[],
+  date: Moment
+): IEventOccurrence[] {
+  return events
+    .flatMap((event) => getOccurrencesOn(event, date))
+    .sort((a, b) => {
+      if (a.event.isAllDay !== b.event.isAllDay) {
+        return a.event.isAllDay ? -1 : 1;
+      }
+      return a.start.valueOf() - b.start.valueOf();
+    });
+}
+
+export function formatOccurrence({
+  event,
+  start,
+  end,
+}: IEventOccurrence): string {
+  const summary = event.summary || "Untitled event";
+  const location = event.location ? ` (${event.location})` : "";
+  if (event.isAllDay) {
+    return `All day: ${summary}${location}`;
+  }
+  const time = start.isSame(end)
+    ? start.format("HH:mm")
+    : `${start.format("HH:mm")}–${end.format("HH:mm")}`;
+  return `${time} ${summary}${location}`;
+}
+
+/**
+ * The occurrences on `date` as a markdown list.
+ */
+export function getAgenda(events: ICalendarEvent[], date: Moment): string {
+  return getEventsOn(events, date)
+    .map((occurrence) => `- ${formatOccurrence(occurrence)}`)
+    .join("\n");
+}
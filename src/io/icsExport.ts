@@ -0,0 +1,108 @@
+import type { Moment } from "moment";
+import { normalizePath, TFile } from "obsidian";
+import { get } from "svelte/store";
+
+import { getDateFromFile, getPeriodStart, IGranularity } from "src/granularity";
+import { dueTasks, getNotesStore } from "src/ui/stores";
+
+import { escapeText, formatCalendar, ICalendarComponent } from "./ics";
+
+const EXPORTED_GRANULARITIES: IGranularity[] = ["day", "week"];
+
+function formatDate(date: Moment): string {
+  return date.format("YYYYMMDD");
+}
+
+function getUri(path: string): string {
+  const vault = encodeURIComponent(window.app.vault.getName());
+  return `obsidian://open?vault=${vault}&file=${encodeURIComponent(path)}`;
+}
+
+function isInRange(date: Moment, start: Moment, end: Moment): boolean {
+  return date.isSameOrAfter(start, "day") && date.isSameOrBefore(end, "day");
+}
+
+/**
+ * An all-day event for every note of `granularity` whose period starts
+ * within the range.
+ */
+function getNoteEvents(
+  granularity: IGranularity,
+  start: Moment,
+  end: Moment,
+  timestamp: string
+): ICalendarComponent[] {
+  const notes = Object.values(get(getNotesStore(granularity)) ?? {});
+  const rangeStart = getPeriodStart(start, granularity);
+  return notes
+    .map((note) => ({ note, date: getDateFromFile(note, granularity) }))
+    .filter(({ date }) => date && isInRange(date, rangeStart, end))
+    .map(({ note, date }) => ({
+      type: "VEVENT",
+      properties: [
+        `UID:${escapeText(note.path)}@obsidian-calendar`,
+        `DTSTAMP:${timestamp}`,
+        `DTSTART;VALUE=DATE:${formatDate(date)}`,
+        `DTEND;VALUE=DATE:${formatDate(date.clone().add(1, granularity))}`,
+        `SUMMARY:${escapeText(note.basename)}`,
+        `URL:${getUri(note.path)}`,
+        `DESCRIPTION:${escapeText(getUri(note.path))}`,
+      ],
+    }));
+}
+
+function getTaskTodos(
+  start: Moment,
+  end: Moment,
+  timestamp: string
+): ICalendarComponent[] {
+  return Object.values(get(dueTasks))
+    .flat()
+    .filter((task) =>
+      isInRange(window.moment(task.dueDate, "YYYY-MM-DD"), start, end)
+    )
+    .map((task) => ({
+      type: "VTODO",
+      properties: [
+        `UID:${escapeText(`${task.path}#${task.line}`)}@obsidian-calendar`,
+        `DTSTAMP:${timestamp}`,
+        `DUE;VALUE=DATE:${task.dueDate.replace(/-/g, "")}`,
+        `SUMMARY:${escapeText(task.text)}`,
+        `STATUS:${task.isCompleted ? "COMPLETED" : "NEEDS-ACTION"}`,
+        `URL:${getUri(task.path)}`,
+      ],
+    }));
+}
+
+/**
+ * Write the daily and weekly notes and the dated tasks between `start`
+ * and `end` to an iCalendar file in the root of the vault, replacing the
+ * file of an earlier export of the same range.
+ */
+export async function exportToIcs(
+  start: Moment,
+  end: Moment
+): Promise<{ file: TFile; numNotes: number; numTasks: number }> {
+  const { vault } = window.app;
+  const timestamp = window.moment.utc().format("YYYYMMDD[T]HHmmss[Z]");
+  const events = EXPORTED_GRANULARITIES.flatMap((granularity) =>
+    getNoteEvents(granularity, start, end, timestamp)
+  );
+  const todos = getTaskTodos(start, end, timestamp);
+  const contents = formatCalendar([...events, ...todos]);
+
+  const path = normalizePath(
+    `Calendar export ${start.format("YYYY-MM-DD")} to ${end.format(
+      "YYYY-MM-DD"
+    )}.ics`
+  );
+  const existingFile = vault.getAbstractFileByPath(path);
+  let file: TFile;
+  if (existingFile instanceof TFile) {
+    await vault.modify(existingFile, contents);
+    file = existingFile;
+  } else {
+    file = await vault.create(path, contents);
+  }
+  return { file, numNotes: events.length, numTasks: todos.length };
+}
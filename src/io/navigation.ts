@@ -0,0 +1,107 @@
+import type { Moment } from "moment";
+import { Notice, TFile } from "obsidian";
+import { get } from "svelte/store";
+
+import {
+  getDateFromFile,
+  getGranularities,
+  getGranularityConfig,
+  getPeriodStart,
+  IGranularity,
+} from "src/granularity";
+import { activeFile, getNotesStore, settings } from "src/ui/stores";
+
+import { openOrCreatePeriodicNote, openPeriodicNote } from "./periodicNotes";
+
+interface IPeriodicNoteInfo {
+  file: TFile;
+  date: Moment;
+  granularity: IGranularity;
+}
+
+/**
+ * The active note, if it's one of the indexed periodic notes.
+ */
+export function getActivePeriodicNote(): IPeriodicNoteInfo | null {
+  const file = window.app.workspace.getActiveFile();
+  if (!file) {
+    return null;
+  }
+  for (const granularity of getGranularities()) {
+    const notes = get(getNotesStore(granularity));
+    if (Object.values(notes ?? {}).includes(file)) {
+      return { file, date: getDateFromFile(file, granularity), granularity };
+    }
+  }
+  return null;
+}
+
+function openOrCreate(date: Moment, granularity: IGranularity): Promise<void> {
+  return openOrCreatePeriodicNote(
+    getPeriodStart(date, granularity),
+    granularity,
+    false,
+    get(settings),
+    (file) => activeFile.setFile(file)
+  );
+}
+
+/**
+ * Open the note of the current period, creating it if needed.
+ */
+export async function openCurrentPeriodicNote(
+  granularity: IGranularity
+): Promise<void> {
+  await openOrCreate(window.moment(), granularity);
+}
+
+/**
+ * Open the closest existing note of the same granularity before or after
+ * the active periodic note. Gaps, such as days without a note, are
+ * skipped.
+ */
+export async function openAdjacentPeriodicNote(
+  direction: 1 | -1
+): Promise<void> {
+  const { file, date, granularity } = getActivePeriodicNote();
+  const notes = Object.values(get(getNotesStore(granularity)) ?? {})
+    .map((note) => ({ note, date: getDateFromFile(note, granularity) }))
+    .filter(({ date: noteDate }) =>
+      direction > 0
+        ? noteDate.isAfter(date, granularity)
+        : noteDate.isBefore(date, granularity)
+    )
+    .sort((a, b) => direction * (a.date.valueOf() - b.date.valueOf()));
+
+  if (!notes.length) {
+    const { periodicity } = getGranularityConfig(granularity);
+    new Notice(
+      `No ${direction > 0 ? "later" : "earlier"} ${periodicity} note than ${
+        file.basename
+      }`
+    );
+    return;
+  }
+  await openPeriodicNote(notes[0].note, false);
+  activeFile.setFile(notes[0].note);
+}
+
+/**
+ * The next coarser granularity, e.g. the month for a week.
+ */
+export function getParentGranularity(
+  granularity: IGranularity
+): IGranularity | null {
+  const granularities = getGranularities();
+  return granularities[granularities.indexOf(granularity) + 1] ?? null;
+}
+
+/**
+ * Open the note of the period that contains the active periodic note,
+ * e.g. the monthly note of a weekly note, creating it if needed.
+ */
+export async function openParentPeriodicNote(): Promise<void> {
+  const { date, granularity } = getActivePeriodicNote();
+  const parent = getParentGranularity(granularity);
+  await openOrCreate(date, parent);
+}
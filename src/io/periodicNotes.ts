@@ -0,0 +1,251 @@
+import type { Moment } from "moment";
+import { Notice, TFile, normalizePath } from "obsidian";
+import { get } from "svelte/store";
+
+import {
+  formatNoteName,
+  getGranularityConfig,
+  getPeriodicNote,
+  getPeriodicNoteSettings,
+  IGranularity,
+} from "src/granularity";
+import { applyTemplate } from "src/io/templates";
+import type { ISettings } from "src/settings";
+import { createConfirmationDialog } from "src/ui/modal";
+import { getNotesStore } from "src/ui/stores";
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Read template file contents and fold info
+ */
+async function getTemplateInfo(
+  template: string,
+  periodicity: string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<[string, any]> {
+  const { metadataCache, vault } = window.app;
+  const templatePath = normalizePath(template);
+
+  if (templatePath === "/" || templatePath === "") {
+    return ["", null];
+  }
+
+  try {
+    const templateFile = metadataCache.getFirstLinkpathDest(templatePath, "");
+    if (!templateFile) {
+      return ["", null];
+    }
+    const contents = await vault.cachedRead(templateFile);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const IFoldInfo = (window.app as any).foldManager.load(templateFile);
+    return [contents, IFoldInfo];
+  } catch (err) {
+    console.error(
+      `Failed to read the ${periodicity} note template '${templatePath}'`,
+      err
+    );
+    new Notice(`Failed to read the ${periodicity} note template`);
+    return ["", null];
+  }
+}
+
+/**
+ * Resolve the path of a new note, creating any missing parent folders.
+ * The format may contain slashes to nest notes in subfolders.
+ */
+export async function getNotePath(
+  folder: string,
+  filename: string
+): Promise<string> {
+  const { vault } = window.app;
+  const path = normalizePath(`${folder}/${filename}.md`);
+
+  const dirs = path.split("/").slice(0, -1);
+  for (let i = 1; i <= dirs.length; i++) {
+    const dir = dirs.slice(0, i).join("/");
+    if (!vault.getAbstractFileByPath(dir)) {
+      await vault.createFolder(dir);
+    }
+  }
+  return path;
+}
+
+function getPeriodicNotePath(
+  date: Moment,
+  granularity: IGranularity
+): Promise<string> {
+  const { folder } = getPeriodicNoteSettings(granularity);
+  return getNotePath(folder, formatNoteName(date, granularity));
+}
+
+/**
+ * Create a note from a template, by default the one configured for its
+ * granularity.
+ */
+async function createNoteFromTemplate(
+  date: Moment,
+  granularity: IGranularity,
+  template = getPeriodicNoteSettings(granularity).template
+): Promise<TFile> {
+  const { vault } = window.app;
+  const { periodicity } = getGranularityConfig(granularity);
+  const path = await getPeriodicNotePath(date, granularity);
+
+  const [templateContents, IFoldInfo] = await getTemplateInfo(
+    template,
+    periodicity
+  );
+
+  const fileContent = applyTemplate(templateContents, date, granularity);
+  const note = await vault.create(path, fileContent);
+  if (IFoldInfo) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (window.app as any).foldManager.save(note, IFoldInfo);
+  }
+  return note;
+}
+
+/**
+ * Create the note for a period. Pass `template` to use a different
+ * template than the configured one.
+ */
+export function createPeriodicNote(
+  date: Moment,
+  granularity: IGranularity,
+  template?: string
+): Promise<TFile> {
+  const { createNote } = getGranularityConfig(granularity);
+  if (createNote && template === undefined) {
+    return createNote(date);
+  }
+  return createNoteFromTemplate(date, granularity, template);
+}
+
+/**
+ * Resolve the path a note would have for another period, or show a
+ * notice and return null when a file already exists there.
+ */
+async function getFreePeriodicNotePath(
+  date: Moment,
+  granularity: IGranularity
+): Promise<string | null> {
+  const path = await getPeriodicNotePath(date, granularity);
+  if (window.app.vault.getAbstractFileByPath(path)) {
+    new Notice(`Unable to use ${path}, the file already exists`);
+    return null;
+  }
+  return path;
+}
+
+/**
+ * Rename a note to the name of another period. Links to the note are
+ * updated by Obsidian.
+ */
+export async function movePeriodicNote(
+  file: TFile,
+  date: Moment,
+  granularity: IGranularity
+): Promise<void> {
+  const path = await getFreePeriodicNotePath(date, granularity);
+  if (path) {
+    await window.app.fileManager.renameFile(file, path);
+  }
+}
+
+export async function duplicatePeriodicNote(
+  file: TFile,
+  date: Moment,
+  granularity: IGranularity
+): Promise<TFile | null> {
+  const { vault } = window.app;
+  const path = await getFreePeriodicNotePath(date, granularity);
+  if (!path) {
+    return null;
+  }
+  const contents = await vault.read(file);
+  return vault.create(path, contents);
+}
+
+export async function openPeriodicNote(
+  file: TFile,
+  inNewSplit: boolean
+): Promise<void> {
+  const { workspace } = window.app;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const mode = (window.app.vault as any).getConfig("defaultViewMode");
+  const leaf = inNewSplit
+    ? workspace.splitActiveLeaf()
+    : workspace.getUnpinnedLeaf();
+  await leaf.openFile(file, { active: true, mode });
+}
+
+/**
+ * Create a periodic note for a given date.
+ */
+export async function tryToCreatePeriodicNote(
+  date: Moment,
+  granularity: IGranularity,
+  inNewSplit: boolean,
+  settings: ISettings,
+  cb?: (file: TFile) => void
+): Promise<void> {
+  const { periodicity } = getGranularityConfig(granularity);
+  const filename = formatNoteName(date, granularity);
+
+  const createFile = async () => {
+    let note: TFile = null;
+    let createError: Error = null;
+    try {
+      note = await createPeriodicNote(date, granularity);
+    } catch (error) {
+      createError = error;
+    }
+
+    if (!note) {
+      // If the file was created in the meantime, open it instead
+      const notes = get(getNotesStore(granularity));
+      note = getPeriodicNote(date, granularity, notes);
+    }
+    if (!note) {
+      if (createError) {
+        throw createError;
+      }
+      return;
+    }
+
+    await openPeriodicNote(note, inNewSplit);
+    cb?.(note);
+  };
+
+  if (settings.shouldConfirmBeforeCreate) {
+    createConfirmationDialog({
+      cta: "Create",
+      onAccept: createFile,
+      text: `File ${filename} does not exist. Would you like to create it?`,
+      title: `New ${capitalize(periodicity)} Note`,
+    });
+  } else {
+    await createFile();
+  }
+}
+
+export async function openOrCreatePeriodicNote(
+  date: Moment,
+  granularity: IGranularity,
+  inNewSplit: boolean,
+  settings: ISettings,
+  cb?: (file: TFile) => void
+): Promise<void> {
+  const notes = get(getNotesStore(granularity));
+  const existingFile = getPeriodicNote(date, granularity, notes);
+  if (!existingFile) {
+    await tryToCreatePeriodicNote(date, granularity, inNewSplit, settings, cb);
+    return;
+  }
+
+  await openPeriodicNote(existingFile, inNewSplit);
+  cb?.(existingFile);
+}
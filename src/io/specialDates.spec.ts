@@ -0,0 +1,169 @@
+import moment from "moment";
+
+import {
+  formatSpecialDate,
+  getSpecialDatesOn,
+  ISpecialDate,
+  parseSpecialDates,
+} from "./specialDates";
+
+function getDaysOf(date: string, from: string, to: string): string[] {
+  const specialDates = parseSpecialDates(
+    JSON.stringify([{ name: "Special", date }]),
+    "json"
+  );
+  const days = [];
+  for (
+    const day = moment(from);
+    day.isSameOrBefore(to, "day");
+    day.add(1, "day")
+  ) {
+    if (getSpecialDatesOn(specialDates, day).length) {
+      days.push(day.format("YYYY-MM-DD"));
+    }
+  }
+  return days;
+}
+
+describe("specialDates", () => {
+  beforeAll(() => {
+    window.moment = moment;
+  });
+
+  describe("rules", () => {
+    test("matches a date once", () => {
+      expect(getDaysOf("2021-06-12", "2021-01-01", "2022-12-31")).toEqual([
+        "2021-06-12",
+      ]);
+    });
+
+    test("matches a month and day every year", () => {
+      expect(getDaysOf("02-29", "2023-01-01", "2024-12-31")).toEqual([
+        "2024-02-29",
+      ]);
+    });
+
+    test("matches the last weekday of a month", () => {
+      expect(
+        getDaysOf("last monday of may", "2021-01-01", "2022-12-31")
+      ).toEqual(["2021-05-31", "2022-05-30"]);
+    });
+
+    test("matches an ordinal weekday of a month", () => {
+      expect(
+        getDaysOf("2nd sunday of may", "2021-01-01", "2021-12-31")
+      ).toEqual(["2021-05-09"]);
+      expect(
+        getDaysOf("first tuesday in nov", "2021-01-01", "2021-12-31")
+      ).toEqual(["2021-11-02"]);
+    });
+
+    test("matches a fifth weekday only in months that have one", () => {
+      expect(
+        getDaysOf("5th friday of april", "2021-01-01", "2023-12-31")
+      ).toEqual(["2021-04-30", "2022-04-29"]);
+    });
+
+    test("finds Easter Sunday", () => {
+      expect(getDaysOf("easter", "2019-01-01", "2024-12-31")).toEqual([
+        "2019-04-21",
+        "2020-04-12",
+        "2021-04-04",
+        "2022-04-17",
+        "2023-04-09",
+        "2024-03-31",
+      ]);
+    });
+
+    test("offsets days from Easter", () => {
+      expect(getDaysOf("easter-2", "2021-01-01", "2021-12-31")).toEqual([
+        "2021-04-02",
+      ]);
+      expect(getDaysOf("easter + 49", "2021-01-01", "2021-12-31")).toEqual([
+        "2021-05-23",
+      ]);
+    });
+
+    test("skips dates it doesn't understand", () => {
+      const specialDates = parseSpecialDates(
+        JSON.stringify([
+          { name: "Invalid day", date: "2021-02-30" },
+          { name: "Unknown ordinal", date: "6th monday of may" },
+          { name: "Unknown month", date: "last monday of ma" },
+          { date: "2021-06-12" },
+        ]),
+        "json"
+      );
+
+      expect(specialDates).toEqual([]);
+    });
+  });
+
+  describe("parseSpecialDates", () => {
+    test("reads a CSV file with a header row", () => {
+      const specialDates = parseSpecialDates(
+        "Name,Date,Type\r\nMidsummer,06-24,\r\nAda,1815-12-10,birthday\r\n",
+        "csv"
+      );
+
+      expect(specialDates.map(({ name, type }) => [name, type])).toEqual([
+        ["Midsummer", "holiday"],
+        ["Ada", "birthday"],
+      ]);
+    });
+
+    test("reads quoted CSV fields", () => {
+      const specialDates = parseSpecialDates(
+        [
+          "name,date",
+          '"Lunch, with cake",06-12',
+          '"Two\nlines",06-13',
+          '"The ""big"" day",06-14',
+        ].join("\n"),
+        "csv"
+      );
+
+      expect(specialDates.map(({ name }) => name)).toEqual([
+        "Lunch, with cake",
+        "Two\nlines",
+        'The "big" day',
+      ]);
+    });
+
+    test("ignores JSON that isn't an array", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => null);
+
+      expect(parseSpecialDates('{"name": "Midsummer"}', "json")).toEqual([]);
+      expect(parseSpecialDates("[{", "json")).toEqual([]);
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+  });
+
+  describe("formatSpecialDate", () => {
+    const birthday: ISpecialDate = {
+      name: "Ada",
+      type: "birthday",
+      rule: { type: "yearly", month: 12, day: 10, since: 1815 },
+    };
+
+    test("counts the years since a yearly date started", () => {
+      expect(formatSpecialDate(birthday, moment("1851-12-10"))).toEqual(
+        "Ada (36)"
+      );
+    });
+
+    test("shows only the name in the first year", () => {
+      expect(formatSpecialDate(birthday, moment("1815-12-10"))).toEqual("Ada");
+    });
+
+    test("reads the start year from a yearly date", () => {
+      const [specialDate] = parseSpecialDates(
+        JSON.stringify([{ name: "Ada", date: "1815-12-10", repeat: "yearly" }]),
+        "json"
+      );
+
+      expect(specialDate.rule).toEqual(birthday.rule);
+    });
+  });
+});
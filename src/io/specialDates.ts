@@ -0,0 +1,312 @@
+import type { Moment } from "moment";
+import type { TFile } from "obsidian";
+
+/**
+ * When a special date takes place. Rules are written as:
+ *
+ * - `2021-06-12`: once, on that day, or every year since with `repeat`
+ *   set to `yearly`
+ * - `06-12`: every year on June 12th
+ * - `last monday of may`, `2nd sunday of may`: every year on a weekday
+ *   of a month
+ * - `easter`, `easter-2`, `easter+49`: every year, relative to Easter
+ *   Sunday
+ */
+type ISpecialDateRule =
+  | { type: "once"; date: string }
+  | { type: "yearly"; month: number; day: number; since: number | null }
+  | { type: "weekday"; month: number; weekday: number; ordinal: number }
+  | { type: "easter"; offset: number };
+
+export interface ISpecialDate {
+  name: string;
+  // E.g. "holiday", "birthday" or "anniversary", used to style the day
+  type: string;
+  rule: ISpecialDateRule;
+}
+
+const DEFAULT_TYPE = "holiday";
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+// The last weekday of a month is ordinal -1
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  "1st": 1,
+  second: 2,
+  "2nd": 2,
+  third: 3,
+  "3rd": 3,
+  fourth: 4,
+  "4th": 4,
+  fifth: 5,
+  "5th": 5,
+  last: -1,
+};
+
+const FULL_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MONTH_DAY_REGEX = /^(\d{2})-(\d{2})$/;
+const WEEKDAY_REGEX = /^(\w+)\s+(\w+)\s+(?:of|in)\s+(\w+)$/;
+const EASTER_REGEX = /^easter\s*(?:([+-])\s*(\d+))?$/;
+
+// English month names, which may be shortened to three letters or more
+function parseMonth(name: string): number {
+  return name.length >= 3
+    ? MONTHS.findIndex((month) => month.startsWith(name))
+    : -1;
+}
+
+function parseRule(text: string, repeat: string): ISpecialDateRule | null {
+  const rule = text.trim().toLowerCase();
+
+  const fullDate = FULL_DATE_REGEX.exec(rule);
+  if (fullDate) {
+    if (!window.moment(rule, "YYYY-MM-DD", true).isValid()) {
+      return null;
+    }
+    const [, year, month, day] = fullDate.map(Number);
+    return repeat.trim().toLowerCase() === "yearly"
+      ? { type: "yearly", month, day, since: year }
+      : { type: "once", date: rule };
+  }
+
+  const monthDay = MONTH_DAY_REGEX.exec(rule);
+  if (monthDay) {
+    // A leap year, so that February 29th is valid
+    if (!window.moment(`2000-${rule}`, "YYYY-MM-DD", true).isValid()) {
+      return null;
+    }
+    const [, month, day] = monthDay.map(Number);
+    return { type: "yearly", month, day, since: null };
+  }
+
+  const weekday = WEEKDAY_REGEX.exec(rule);
+  if (weekday) {
+    const [, ordinal, weekdayName, monthName] = weekday;
+    const month = parseMonth(monthName);
+    if (!ORDINALS[ordinal] || !WEEKDAYS.includes(weekdayName) || month < 0) {
+      return null;
+    }
+    return {
+      type: "weekday",
+      month: month + 1,
+      weekday: WEEKDAYS.indexOf(weekdayName),
+      ordinal: ORDINALS[ordinal],
+    };
+  }
+
+  const easter = EASTER_REGEX.exec(rule);
+  if (easter) {
+    const [, sign, days] = easter;
+    return {
+      type: "easter",
+      offset: days ? Number(`${sign}${days}`) : 0,
+    };
+  }
+  return null;
+}
+
+/**
+ * Easter Sunday of the Gregorian calendar, using the anonymous algorithm
+ * published in Nature in 1876.
+ */
+function getEaster(year: number): Moment {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return window.moment({ year, month: month - 1, day });
+}
+
+function matchesRule(rule: ISpecialDateRule, date: Moment): boolean {
+  switch (rule.type) {
+    case "once":
+      return date.format("YYYY-MM-DD") === rule.date;
+    case "yearly":
+      return (
+        date.month() + 1 === rule.month &&
+        date.date() === rule.day &&
+        (rule.since === null || date.year() >= rule.since)
+      );
+    case "weekday": {
+      if (date.month() + 1 !== rule.month || date.day() !== rule.weekday) {
+        return false;
+      }
+      return rule.ordinal > 0
+        ? Math.ceil(date.date() / 7) === rule.ordinal
+        : date.date() + 7 > date.daysInMonth();
+    }
+    case "easter":
+      // A large offset can move the day into the year before or after
+      return [-1, 0, 1].some((delta) =>
+        getEaster(date.year() + delta)
+          .add(rule.offset, "days")
+          .isSame(date, "day")
+      );
+  }
+}
+
+function createSpecialDate(
+  entry: Record<string, unknown>
+): ISpecialDate | null {
+  const { name, date, type, repeat } = entry;
+  if (typeof name !== "string" || !name.trim() || typeof date !== "string") {
+    return null;
+  }
+  const rule = parseRule(date, typeof repeat === "string" ? repeat : "");
+  if (!rule) {
+    return null;
+  }
+  return {
+    name: name.trim(),
+    type: (typeof type === "string" && type.trim()) || DEFAULT_TYPE,
+    rule,
+  };
+}
+
+/**
+ * Split CSV into rows of fields, following RFC 4180: fields may be quoted
+ * to contain commas, line breaks and doubled quotes.
+ */
+function parseCsvRows(contents: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let isQuoted = false;
+
+  for (let i = 0; i < contents.length; i++) {
+    const char = contents[i];
+    if (isQuoted) {
+      if (char === '"' && contents[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && contents[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+/**
+ * The rows of a CSV file with a header row, keyed by the lowercased
+ * column names.
+ */
+function parseCsv(contents: string): Record<string, string>[] {
+  const [header = [], ...rows] = parseCsvRows(contents);
+  const columns = header.map((column) => column.trim().toLowerCase());
+  return rows.map((fields) =>
+    columns.reduce<Record<string, string>>((entry, column, i) => {
+      entry[column] = fields[i]?.trim() ?? "";
+      return entry;
+    }, {})
+  );
+}
+
+/**
+ * Read special dates from a JSON array of `{ name, date, type, repeat }`
+ * objects, or from a CSV file with those columns. Entries without a name
+ * or with a date the calendar doesn't understand are skipped.
+ */
+export function parseSpecialDates(
+  contents: string,
+  extension: string
+): ISpecialDate[] {
+  let entries: unknown[] = [];
+  if (extension === "csv") {
+    entries = parseCsv(contents);
+  } else {
+    try {
+      const data = JSON.parse(contents);
+      entries = Array.isArray(data) ? data : [];
+    } catch (err) {
+      console.warn("[Calendar] Failed to parse the special dates file", err);
+    }
+  }
+
+  return entries
+    .filter(
+      (entry): entry is Record<string, unknown> =>
+        !!entry && typeof entry === "object"
+    )
+    .map(createSpecialDate)
+    .filter((specialDate): specialDate is ISpecialDate => !!specialDate);
+}
+
+export async function getSpecialDates(file: TFile): Promise<ISpecialDate[]> {
+  const contents = await window.app.vault.cachedRead(file);
+  return parseSpecialDates(contents, file.extension);
+}
+
+export function getSpecialDatesOn(
+  specialDates: ISpecialDate[],
+  date: Moment
+): ISpecialDate[] {
+  return specialDates.filter(({ rule }) => matchesRule(rule, date));
+}
+
+/**
+ * The name of a special date as shown on `date`. Dates that repeat every
+ * year since a given year, such as birthdays, get the number of years.
+ */
+export function formatSpecialDate(
+  { name, rule }: ISpecialDate,
+  date: Moment
+): string {
+  if (rule.type === "yearly" && rule.since !== null) {
+    const years = date.year() - rule.since;
+    return years > 0 ? `${name} (${years})` : name;
+  }
+  return name;
+}
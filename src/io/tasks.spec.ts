@@ -0,0 +1,103 @@
+import moment from "moment";
+
+import { isOverdue, ITask, parseTasks } from "./tasks";
+
+describe("parseTasks", () => {
+  test("finds tasks in any kind of list", () => {
+    const tasks = parseTasks(
+      [
+        "# Today",
+        "- [ ] Water the plants",
+        "* [x] Pay rent",
+        "  + [-] Call the bank",
+        "1. [ ] Book flights",
+        "2) [/] Pack",
+        "- Not a task",
+        "[ ] Not in a list",
+      ].join("\n"),
+      "Daily/2021-03-01.md"
+    );
+
+    expect(tasks.map(({ line, text }) => [line, text])).toEqual([
+      [1, "Water the plants"],
+      [2, "Pay rent"],
+      [3, "Call the bank"],
+      [4, "Book flights"],
+      [5, "Pack"],
+    ]);
+    expect(tasks.every(({ path }) => path === "Daily/2021-03-01.md")).toBe(
+      true
+    );
+  });
+
+  test("counts any status but a blank one as completed", () => {
+    const tasks = parseTasks("- [ ] Open\n- [x] Done\n- [-] Cancelled", "");
+
+    expect(tasks.map(({ isCompleted }) => isCompleted)).toEqual([
+      false,
+      true,
+      true,
+    ]);
+  });
+
+  test("reads due dates", () => {
+    const tasks = parseTasks(
+      [
+        "- [ ] Pay rent 📅 2021-03-01",
+        "- [ ] Renew passport due:: 2021-04-15",
+        "- [ ] Someday",
+      ].join("\n"),
+      ""
+    );
+
+    expect(tasks.map(({ dueDate }) => dueDate)).toEqual([
+      "2021-03-01",
+      "2021-04-15",
+      null,
+    ]);
+  });
+
+  test("uses the scheduled date of tasks without a due date", () => {
+    const tasks = parseTasks(
+      [
+        "- [ ] Plan the week ⏳ 2021-03-01",
+        "- [ ] Review scheduled:: 2021-03-02",
+        "- [ ] Report ⏳ 2021-03-01 📅 2021-03-05",
+      ].join("\n"),
+      ""
+    );
+
+    expect(tasks.map(({ dueDate }) => dueDate)).toEqual([
+      "2021-03-01",
+      "2021-03-02",
+      "2021-03-05",
+    ]);
+  });
+});
+
+describe("isOverdue", () => {
+  const today = moment("2021-03-10");
+
+  function getTask(overrides: Partial<ITask>): ITask {
+    return {
+      path: "",
+      line: 0,
+      text: "",
+      isCompleted: false,
+      dueDate: null,
+      ...overrides,
+    };
+  }
+
+  test("is overdue when the due date has passed", () => {
+    expect(isOverdue(getTask({ dueDate: "2021-03-09" }), today)).toBe(true);
+    expect(isOverdue(getTask({ dueDate: "2021-03-10" }), today)).toBe(false);
+  });
+
+  test("is never overdue once completed or without a due date", () => {
+    expect(
+      isOverdue(getTask({ dueDate: "2021-03-09", isCompleted: true }), today)
+    ).toBe(false);
+    expect(isOverdue(getTask({}), today)).toBe(false);
+  });
+});
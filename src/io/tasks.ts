@@ -0,0 +1,59 @@
+import type { Moment } from "moment";
+import type { TFile } from "obsidian";
+
+export interface ITask {
+  path: string;
+  line: number;
+  text: string;
+  isCompleted: boolean;
+  /**
+   * The day the task is due, formatted as YYYY-MM-DD. Tasks that are only
+   * scheduled use their scheduled date instead.
+   */
+  dueDate: string | null;
+}
+
+const TASK_REGEX = /^\s*(?:[-*+]|\d+[.)])\s+\[(.)\]\s*(.*)$/;
+const DUE_DATE_REGEX = /(?:📅|due::)\s*(\d{4}-\d{2}-\d{2})/;
+const SCHEDULED_DATE_REGEX = /(?:⏳|scheduled::)\s*(\d{4}-\d{2}-\d{2})/;
+
+/**
+ * Find every task in a markdown document. Any status other than a blank
+ * one, such as `[x]` or `[-]`, counts as completed.
+ */
+export function parseTasks(contents: string, path: string): ITask[] {
+  const tasks: ITask[] = [];
+  contents.split("\n").forEach((lineText, line) => {
+    const match = lineText.match(TASK_REGEX);
+    if (!match) {
+      return;
+    }
+    const [, status, text] = match;
+    const dateMatch =
+      text.match(DUE_DATE_REGEX) || text.match(SCHEDULED_DATE_REGEX);
+    tasks.push({
+      path,
+      line,
+      text: text.trim(),
+      isCompleted: status !== " ",
+      dueDate: dateMatch ? dateMatch[1] : null,
+    });
+  });
+  return tasks;
+}
+
+export async function getTasks(file: TFile): Promise<ITask[]> {
+  if (!file) {
+    return [];
+  }
+  const fileContents = await window.app.vault.cachedRead(file);
+  return parseTasks(fileContents, file.path);
+}
+
+export function isOverdue(task: ITask, today: Moment): boolean {
+  return (
+    !task.isCompleted &&
+    !!task.dueDate &&
+    task.dueDate < today.format("YYYY-MM-DD")
+  );
+}
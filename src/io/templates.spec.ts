@@ -0,0 +1,143 @@
+import moment from "moment";
+import type { App } from "obsidian";
+
+import { settings } from "src/settingsStore";
+import { getDefaultSettings } from "src/testUtils/settings";
+import * as stores from "src/ui/stores";
+
+import { parseEvents } from "./ics";
+import { applyTemplate } from "./templates";
+
+describe("applyTemplate", () => {
+  beforeAll(() => {
+    // Neither the daily-notes nor the periodic-notes plugin is enabled
+    window.app = ({
+      internalPlugins: { getPluginById: () => null },
+      plugins: { getPlugin: () => null },
+    } as unknown) as App;
+    window.moment = moment;
+    moment.locale("en");
+  });
+
+  beforeEach(() => {
+    settings.set(getDefaultSettings());
+  });
+
+  test("fills in the name of the note", () => {
+    expect(
+      applyTemplate("# {{title}} ({{date}})", moment("2021-03-01"), "day")
+    ).toEqual("# 2021-03-01 (2021-03-01)");
+  });
+
+  test("shifts and formats the date", () => {
+    const date = moment("2021-03-01");
+
+    expect(applyTemplate("{{date:dddd}}", date, "day")).toEqual("Monday");
+    expect(applyTemplate("{{date+1w:YYYY-MM-DD}}", date, "day")).toEqual(
+      "2021-03-08"
+    );
+    expect(applyTemplate("{{ DATE-2d }}", date, "day")).toEqual("2021-02-27");
+  });
+
+  test("fills in the days around the note", () => {
+    expect(
+      applyTemplate(
+        "{{yesterday}} {{tomorrow}} {{friday:D MMM}}",
+        moment("2021-03-01"),
+        "day"
+      )
+    ).toEqual("2021-02-28 2021-03-02 5 Mar");
+  });
+
+  test("fills in the days of the note's week", () => {
+    expect(
+      applyTemplate("{{sunday}} {{monday}}", moment("2021-03-03"), "day")
+    ).toEqual("2021-02-28 2021-03-01");
+  });
+
+  test("starts the week on the locale's first day", () => {
+    moment.defineLocale("en-iso", {
+      parentLocale: "en",
+      week: { dow: 1, doy: 4 },
+    });
+    moment.locale("en");
+
+    expect(
+      applyTemplate(
+        "{{monday}} {{wednesday}} {{sunday}}",
+        moment("2021-03-03").locale("en-iso"),
+        "day"
+      )
+    ).toEqual("2021-03-01 2021-03-03 2021-03-07");
+  });
+
+  test("fills in the first and last day of the period", () => {
+    expect(
+      applyTemplate("{{start}} – {{end}}", moment("2021-02-10"), "month")
+    ).toEqual("2021-02-01 – 2021-02-28");
+  });
+
+  test("follows the configured note format", () => {
+    settings.set(getDefaultSettings({ monthlyNoteFormat: "MMMM YYYY" }));
+
+    expect(
+      applyTemplate(
+        "{{title}} {{link:previous}}",
+        moment("2021-03-01"),
+        "month"
+      )
+    ).toEqual("March 2021 [[February 2021]]");
+  });
+
+  test("lists the notes of the periods within the note's period", () => {
+    expect(
+      applyTemplate(
+        "{{link:month}}\n{{link:year}}",
+        moment("2021-05-10"),
+        "quarter"
+      )
+    ).toEqual("- [[2021-04]]\n- [[2021-05]]\n- [[2021-06]]\n[[2021]]");
+  });
+
+  test("follows the fiscal year", () => {
+    settings.set(getDefaultSettings({ fiscalYearStart: 4 }));
+    const date = moment("2021-05-10");
+
+    expect(applyTemplate("Q{{quarter}} {{year}}", date, "quarter")).toEqual(
+      "Q1 2021"
+    );
+    expect(applyTemplate("{{start}}", moment("2021-03-10"), "year")).toEqual(
+      "2020-04-01"
+    );
+  });
+
+  test("fills in the day's agenda", () => {
+    const events = parseEvents(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "UID:1",
+        "SUMMARY:Standup",
+        "DTSTART:20210301T090000",
+        "DTEND:20210301T091500",
+        "RRULE:FREQ=DAILY",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n")
+    );
+    const getAllCalendarEvents = jest
+      .spyOn(stores, "getAllCalendarEvents")
+      .mockReturnValue(events);
+
+    expect(
+      applyTemplate("## Agenda\n{{agenda}}", moment("2021-03-02"), "day")
+    ).toEqual("## Agenda\n- 09:00–09:15 Standup");
+    getAllCalendarEvents.mockRestore();
+  });
+
+  test("leaves unknown variables untouched", () => {
+    expect(
+      applyTemplate("{{weather}} {{link:decade}}", moment("2021-03-01"), "day")
+    ).toEqual("{{weather}} {{link:decade}}");
+  });
+});
@@ -0,0 +1,215 @@
+import type { Moment, unitOfTime } from "moment";
+import { get } from "svelte/store";
+
+import {
+  formatNoteName,
+  getGranularities,
+  getPeriodEnd,
+  getPeriodicNoteSettings,
+  getPeriodStart,
+  IGranularity,
+  toFiscalDate,
+} from "src/granularity";
+import { getAllCalendarEvents, specialDates } from "src/ui/stores";
+
+import { getAgenda } from "./ics";
+import { formatSpecialDate, getSpecialDatesOn } from "./specialDates";
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+// {{name}}, {{name:format}}, {{name+1d}} or {{name-2w:format}}
+const VARIABLE_REGEX = /{{\s*(\w+)\s*(?:([+-]\d+)([yqmwdhs]))?\s*(?::(.*?))?\s*}}/gi;
+
+interface ITemplateContext {
+  date: Moment;
+  granularity: IGranularity;
+  filename: string;
+  format: string;
+}
+
+/**
+ * The index of the day `name` within the week of `date`, which starts on
+ * the locale's first day of the week.
+ */
+function getLocaleWeekday(date: Moment, name: string): number {
+  const firstDay = date.localeData().firstDayOfWeek();
+  return (WEEKDAYS.indexOf(name) - firstDay + 7) % 7;
+}
+
+function getFormat(granularity: IGranularity): string {
+  return getPeriodicNoteSettings(granularity).format;
+}
+
+function getLink(date: Moment, granularity: IGranularity): string {
+  return `[[${formatNoteName(date, granularity)}]]`;
+}
+
+/**
+ * Link to the period of `target` that contains the note's period, or
+ * list the links to every period of `target` that the note's period
+ * spans, e.g. the month notes of a quarterly note.
+ */
+function getPeriodLinks(
+  { date, granularity }: ITemplateContext,
+  target: IGranularity
+): string {
+  const granularities = getGranularities();
+  if (granularities.indexOf(target) >= granularities.indexOf(granularity)) {
+    return getLink(date, target);
+  }
+
+  const start = getPeriodStart(date, granularity);
+  const end = getPeriodEnd(date, granularity);
+  const links = [];
+  for (
+    let period = getPeriodStart(start, target);
+    period.isSameOrBefore(end);
+    period = period.clone().add(1, target)
+  ) {
+    links.push(`- ${getLink(period, target)}`);
+  }
+  return links.join("\n");
+}
+
+function resolveLink(context: ITemplateContext, target: string): string {
+  const { date, granularity } = context;
+  target = target.toLowerCase();
+  switch (target) {
+    case "previous":
+      return getLink(date.clone().subtract(1, granularity), granularity);
+    case "next":
+      return getLink(date.clone().add(1, granularity), granularity);
+    default:
+      if ((getGranularities() as string[]).includes(target)) {
+        return getPeriodLinks(context, target as IGranularity);
+      }
+      return null;
+  }
+}
+
+/**
+ * Resolve a single template variable. Returns null for unknown variables,
+ * which are left untouched.
+ */
+function resolveVariable(
+  context: ITemplateContext,
+  name: string,
+  offset: string,
+  unit: unitOfTime.DurationConstructor,
+  momentFormat: string
+): string | null {
+  const { date, granularity, filename, format } = context;
+  const dailyFormat = getFormat("day");
+
+  switch (name) {
+    case "date":
+    case "time": {
+      if (!offset && !momentFormat) {
+        return name === "date" ? filename : window.moment().format("HH:mm");
+      }
+      const now = window.moment();
+      const currentDate = date.clone().set({
+        hour: now.get("hour"),
+        minute: now.get("minute"),
+        second: now.get("second"),
+      });
+      if (offset) {
+        currentDate.add(parseInt(offset, 10), unit);
+      }
+      return momentFormat
+        ? currentDate.format(momentFormat)
+        : formatNoteName(currentDate, granularity, format);
+    }
+    case "title":
+      return filename;
+    case "yesterday":
+      return date.clone().subtract(1, "day").format(format);
+    case "tomorrow":
+      return date.clone().add(1, "day").format(format);
+    case "week":
+      return date.format(momentFormat || "w");
+    case "quarter":
+      return toFiscalDate(date).format(momentFormat || "Q");
+    case "year":
+      return toFiscalDate(date).format(momentFormat || "YYYY");
+    case "start":
+      return getPeriodStart(date, granularity).format(
+        momentFormat || dailyFormat
+      );
+    case "end":
+      return getPeriodEnd(date, granularity).format(
+        momentFormat || dailyFormat
+      );
+    case "link":
+      return momentFormat ? resolveLink(context, momentFormat) : null;
+    case "agenda":
+      return getAgenda(getAllCalendarEvents(), date);
+    case "specialdates":
+      return getSpecialDatesOn(get(specialDates), date)
+        .map((specialDate) => formatSpecialDate(specialDate, date))
+        .join(", ");
+    default:
+      if (WEEKDAYS.includes(name)) {
+        return date
+          .clone()
+          .weekday(getLocaleWeekday(date, name))
+          .format(momentFormat || dailyFormat);
+      }
+      return null;
+  }
+}
+
+/**
+ * Fill in the variables of a periodic note template. This is a superset
+ * of the variables supported by the daily-notes and periodic-notes
+ * plugins:
+ *
+ * - `{{date}}`, `{{title}}`: the name of the note
+ * - `{{time}}`: the current time
+ * - `{{date:format}}`, `{{date+1d:format}}`: the note's date, optionally
+ *   shifted and formatted
+ * - `{{yesterday}}`, `{{tomorrow}}`
+ * - `{{monday:format}}` … `{{sunday:format}}`: a day of the note's week
+ * - `{{week}}`, `{{quarter}}`, `{{year}}`: numbers of the note's period,
+ *   with the quarter and year following the fiscal year
+ * - `{{start:format}}`, `{{end:format}}`: the first and last day of the
+ *   note's period
+ * - `{{link:previous}}`, `{{link:next}}`: links to the neighboring notes
+ * - `{{link:month}}` etc.: a link to the note of the enclosing period, or
+ *   a list of links to the notes of the periods it contains
+ * - `{{agenda}}`: the events of the note's day from the vault's .ics files
+ * - `{{specialDates}}`: the holidays, birthdays etc. on the note's day
+ */
+export function applyTemplate(
+  template: string,
+  date: Moment,
+  granularity: IGranularity
+): string {
+  const format = getFormat(granularity);
+  const context: ITemplateContext = {
+    date,
+    granularity,
+    filename: formatNoteName(date, granularity, format),
+    format,
+  };
+
+  return template.replace(
+    VARIABLE_REGEX,
+    (match, name, offset, unit, momentFormat) =>
+      resolveVariable(
+        context,
+        name.toLowerCase(),
+        offset,
+        unit,
+        momentFormat?.trim()
+      ) ?? match
+  );
+}
@@ -1,15 +1,114 @@
 import type { Moment, WeekSpec } from "moment";
-import { App, Plugin, WorkspaceLeaf } from "obsidian";
+import type { Component, TAbstractFile } from "obsidian";
+import {
+  App,
+  debounce,
+  Editor,
+  MarkdownFileInfo,
+  Notice,
+  Plugin,
+  TFile,
+  WorkspaceLeaf,
+} from "obsidian";
+import type { ICalendarSource } from "obsidian-calendar-ui";
+import { get } from "svelte/store";
+import type { Readable } from "svelte/store";
 
-import { VIEW_TYPE_CALENDAR } from "./constants";
-import { settings } from "./ui/stores";
+import {
+  VIEW_TYPE_CALENDAR,
+  VIEW_TYPE_FILES_TOUCHED,
+  VIEW_TYPE_YEAR_HEATMAP,
+} from "./constants";
+import FilesTouchedView, { showFilesTouched } from "./filesTouchedView";
+import {
+  getDateFromFile,
+  getGranularityConfig,
+  getPeriodStart,
+  IGranularity,
+} from "./granularity";
+import YearHeatmapView from "./heatmapView";
+import { getAgenda } from "./io/ics";
+import { exportToIcs } from "./io/icsExport";
+import {
+  getActivePeriodicNote,
+  getParentGranularity,
+  openAdjacentPeriodicNote,
+  openCurrentPeriodicNote,
+  openParentPeriodicNote,
+} from "./io/navigation";
+import { openOrCreatePeriodicNote } from "./io/periodicNotes";
+import { BackfillModal } from "./ui/backfillModal";
+import type { IDaySummarySource } from "./ui/daySummaryPopover";
+import { createDateRangePromptDialog } from "./ui/modal";
+import {
+  customTagsSource,
+  datedNotesSource,
+  eventsSource,
+  filesTouchedSource,
+  formatStreakStats,
+  getPropertyRuleStyles,
+  getStreakStats,
+  propertyRulesSource,
+  specialDatesSource,
+  streakSource,
+  tasksSource,
+  tooltipSource,
+  wordCountSource,
+} from "./ui/sources";
+import {
+  calendarEvents,
+  dailyNotes,
+  datedNotes,
+  dueTasks,
+  filesTouched,
+  getAllCalendarEvents,
+  getNotesStore,
+  monthlyNotes,
+  notesIndex,
+  quarterlyNotes,
+  reindexAllNotes,
+  settings,
+  sources,
+  specialDates,
+  weeklyNotes,
+  yearlyNotes,
+} from "./ui/stores";
 import {
   appHasPeriodicNotesPluginLoaded,
   CalendarSettingsTab,
+  configureMomentLocale,
   ISettings,
 } from "./settings";
+import {
+  exportSettings,
+  importSettings,
+  parseSettings,
+} from "./settingsSchema";
 import CalendarView from "./view";
 
+// The settings that change which files are periodic notes, or which date a
+// file is indexed under
+const NOTES_INDEX_SETTINGS: (keyof ISettings)[] = [
+  "weekStart",
+  "weekNumbering",
+  "localeOverride",
+  "fiscalYearStart",
+  "dateProperty",
+  "specialDatesFile",
+  "weeklyNoteFormat",
+  "weeklyNoteFolder",
+  "monthlyNoteFormat",
+  "monthlyNoteFolder",
+  "quarterlyNoteFormat",
+  "quarterlyNoteFolder",
+  "yearlyNoteFormat",
+  "yearlyNoteFolder",
+];
+
+// Wait for typing in the format and folder fields to stop before
+// rescanning the vault
+const REBUILD_NOTES_INDEX_DELAY = 1000;
+
 declare global {
   interface Window {
     app: App;
@@ -26,15 +125,114 @@ export default class CalendarPlugin extends Plugin {
     this.app.workspace
       .getLeavesOfType(VIEW_TYPE_CALENDAR)
       .forEach((leaf) => leaf.detach());
+    this.app.workspace
+      .getLeavesOfType(VIEW_TYPE_YEAR_HEATMAP)
+      .forEach((leaf) => leaf.detach());
+    this.app.workspace
+      .getLeavesOfType(VIEW_TYPE_FILES_TOUCHED)
+      .forEach((leaf) => leaf.detach());
   }
 
   async onload(): Promise<void> {
+    const propertyRuleStyles = document.head.createEl("style", {
+      attr: { id: "calendar-property-rules" },
+    });
+    this.register(() => propertyRuleStyles.remove());
+
+    const requestNotesIndexRebuild = debounce(
+      () => this.rebuildNotesIndex(),
+      REBUILD_NOTES_INDEX_DELAY,
+      true
+    );
+    this.register(() => requestNotesIndexRebuild.cancel());
     this.register(
       settings.subscribe((value) => {
+        const previousOptions = this.options;
         this.options = value;
+        propertyRuleStyles.setText(getPropertyRuleStyles(value.propertyRules));
+        const shouldRebuildIndex =
+          !previousOptions ||
+          NOTES_INDEX_SETTINGS.some(
+            (key) => value[key] !== previousOptions[key]
+          );
+        if (shouldRebuildIndex && this.app.workspace.layoutReady) {
+          requestNotesIndexRebuild();
+        }
       })
     );
 
+    this.registerEvent(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (<any>this.app.workspace).on(
+        "periodic-notes:settings-updated",
+        this.rebuildNotesIndex.bind(this)
+      )
+    );
+    this.registerEvent(
+      this.app.vault.on("create", (file: TAbstractFile) => {
+        if (this.app.workspace.layoutReady) {
+          notesIndex.onCreate(file);
+          filesTouched.add(file);
+          if (file instanceof TFile) {
+            dueTasks.indexFile(file);
+            calendarEvents.indexFile(file);
+            specialDates.indexFile(file);
+          }
+        }
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on("modify", (file: TAbstractFile) => {
+        if (file instanceof TFile) {
+          calendarEvents.indexFile(file);
+          specialDates.indexFile(file);
+          filesTouched.add(file);
+        }
+      })
+    );
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file: TFile) => {
+        datedNotes.indexFile(file);
+        // Which files have tasks is read from the metadata cache, which is
+        // only up to date once it has changed
+        dueTasks.indexFile(file);
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file: TAbstractFile) => {
+        notesIndex.onDelete(file);
+        dueTasks.remove(file.path);
+        calendarEvents.remove(file.path);
+        datedNotes.remove(file.path);
+        specialDates.remove(file.path);
+        filesTouched.remove(file.path);
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+        notesIndex.onRename(file, oldPath);
+        dueTasks.rename(file, oldPath);
+        calendarEvents.rename(file, oldPath);
+        datedNotes.rename(file, oldPath);
+        specialDates.rename(file, oldPath);
+        filesTouched.rename(file, oldPath);
+      })
+    );
+
+    // In the order of their lines in the day summary
+    [
+      specialDatesSource,
+      streakSource,
+      wordCountSource,
+      tasksSource,
+      propertyRulesSource,
+      filesTouchedSource,
+      eventsSource,
+      datedNotesSource,
+      customTagsSource,
+      tooltipSource,
+    ].forEach((source) => this.registerSource(source, this));
+
     this.registerView(
       VIEW_TYPE_CALENDAR,
       (leaf: WorkspaceLeaf) => (this.view = new CalendarView(leaf))
@@ -53,6 +251,28 @@ export default class CalendarPlugin extends Plugin {
       },
     });
 
+    this.registerView(
+      VIEW_TYPE_YEAR_HEATMAP,
+      (leaf: WorkspaceLeaf) => new YearHeatmapView(leaf)
+    );
+
+    this.addCommand({
+      id: "show-year-heatmap-view",
+      name: "Open year heatmap",
+      callback: () => this.openYearHeatmap(),
+    });
+
+    this.registerView(
+      VIEW_TYPE_FILES_TOUCHED,
+      (leaf: WorkspaceLeaf) => new FilesTouchedView(leaf)
+    );
+
+    this.addCommand({
+      id: "show-files-touched-view",
+      name: "Show files touched today",
+      callback: () => showFilesTouched(window.moment()),
+    });
+
     this.addCommand({
       id: "open-weekly-note",
       name: "Open Weekly Note",
@@ -60,10 +280,94 @@ export default class CalendarPlugin extends Plugin {
         if (checking) {
           return !appHasPeriodicNotesPluginLoaded();
         }
-        this.view.openOrCreateWeeklyNote(window.moment(), false);
+        openOrCreatePeriodicNote(
+          getPeriodStart(window.moment(), "week"),
+          "week",
+          false,
+          this.options
+        );
       },
     });
 
+    (["month", "quarter", "year"] as IGranularity[]).forEach((granularity) => {
+      const { periodicity } = getGranularityConfig(granularity);
+      const label = periodicity.charAt(0).toUpperCase() + periodicity.slice(1);
+      this.addCommand({
+        id: `open-${periodicity}-note`,
+        name: `Open ${label} Note`,
+        callback: () => openCurrentPeriodicNote(granularity),
+      });
+    });
+
+    this.addCommand({
+      id: "create-missing-notes",
+      name: "Create missing notes…",
+      callback: () => new BackfillModal(this.app).open(),
+    });
+
+    this.addCommand({
+      id: "open-previous-note",
+      name: "Open previous note",
+      checkCallback: (checking) => {
+        if (checking) {
+          return !!getActivePeriodicNote();
+        }
+        openAdjacentPeriodicNote(-1);
+      },
+    });
+
+    this.addCommand({
+      id: "open-next-note",
+      name: "Open next note",
+      checkCallback: (checking) => {
+        if (checking) {
+          return !!getActivePeriodicNote();
+        }
+        openAdjacentPeriodicNote(1);
+      },
+    });
+
+    this.addCommand({
+      id: "open-parent-note",
+      name: "Open parent note",
+      checkCallback: (checking) => {
+        if (checking) {
+          const note = getActivePeriodicNote();
+          return !!note && !!getParentGranularity(note.granularity);
+        }
+        openParentPeriodicNote();
+      },
+    });
+
+    this.addCommand({
+      id: "focus-calendar-view",
+      name: "Focus calendar",
+      callback: () => this.focusCalendar(),
+    });
+
+    this.addCommand({
+      id: "insert-agenda",
+      name: "Insert agenda",
+      editorCheckCallback: (checking, editor, ctx) => {
+        if (checking) {
+          return !!ctx.file && !!getDateFromFile(ctx.file, "day");
+        }
+        this.insertAgenda(editor, ctx);
+      },
+    });
+
+    this.addCommand({
+      id: "export-to-icalendar",
+      name: "Export notes and tasks to iCalendar",
+      callback: () => this.exportToIcs(),
+    });
+
+    this.addCommand({
+      id: "show-streak",
+      name: "Show streak",
+      callback: () => this.showStreak(),
+    });
+
     this.addCommand({
       id: "reveal-active-note",
       name: "Reveal active note",
@@ -75,33 +379,175 @@ export default class CalendarPlugin extends Plugin {
     this.addSettingTab(new CalendarSettingsTab(this.app, this));
 
     if (this.app.workspace.layoutReady) {
-      this.initLeaf();
+      this.onLayoutReady();
     } else {
       this.registerEvent(
-        this.app.workspace.on("layout-ready", this.initLeaf.bind(this))
+        this.app.workspace.on("layout-ready", this.onLayoutReady.bind(this))
       );
     }
   }
 
-  initLeaf(): void {
+  onLayoutReady(): void {
+    this.rebuildNotesIndex();
+    dueTasks.reindex();
+    filesTouched.reindex();
+    calendarEvents.reindex();
+    this.initLeaf();
+  }
+
+  /**
+   * Scan every notes folder from scratch. The vault events keep the index
+   * up to date otherwise, so this is only needed when a setting changes
+   * which files count as periodic notes.
+   */
+  rebuildNotesIndex(): void {
+    // The week start and numbering affect the dateUIDs of weekly notes
+    configureMomentLocale(this.options);
+    reindexAllNotes();
+    // Which notes are dated depends on the date property setting
+    datedNotes.reindex();
+    // The special dates come from the file set in the settings
+    specialDates.reindex();
+  }
+
+  /**
+   * Add a source to every open calendar view, and to any view opened later.
+   * Pass the calling plugin as `owner` to have the source removed again
+   * when that plugin unloads.
+   */
+  public registerSource(source: IDaySummarySource, owner?: Component): void {
+    sources.register(source);
+    owner?.register(() => sources.unregister(source));
+  }
+
+  public unregisterSource(source: ICalendarSource): void {
+    sources.unregister(source);
+  }
+
+  public getNotes(granularity: IGranularity): Readable<Record<string, TFile>> {
+    return { subscribe: getNotesStore(granularity).subscribe };
+  }
+
+  public get dailyNotes(): Readable<Record<string, TFile>> {
+    return { subscribe: dailyNotes.subscribe };
+  }
+
+  public get weeklyNotes(): Readable<Record<string, TFile>> {
+    return { subscribe: weeklyNotes.subscribe };
+  }
+
+  public get monthlyNotes(): Readable<Record<string, TFile>> {
+    return { subscribe: monthlyNotes.subscribe };
+  }
+
+  public get quarterlyNotes(): Readable<Record<string, TFile>> {
+    return { subscribe: quarterlyNotes.subscribe };
+  }
+
+  public get yearlyNotes(): Readable<Record<string, TFile>> {
+    return { subscribe: yearlyNotes.subscribe };
+  }
+
+  async initLeaf(): Promise<void> {
     if (this.app.workspace.getLeavesOfType(VIEW_TYPE_CALENDAR).length) {
       return;
     }
-    this.app.workspace.getRightLeaf(false).setViewState({
+    await this.app.workspace.getRightLeaf(false).setViewState({
       type: VIEW_TYPE_CALENDAR,
     });
   }
 
-  async loadOptions(): Promise<void> {
-    const options = await this.loadData();
-    settings.update((old) => {
-      return {
-        ...old,
-        ...(options || {}),
-      };
+  /**
+   * Open the calendar if needed and move the keyboard focus to its grid.
+   */
+  async focusCalendar(): Promise<void> {
+    await this.initLeaf();
+    const [leaf] = this.app.workspace.getLeavesOfType(VIEW_TYPE_CALENDAR);
+    this.app.workspace.revealLeaf(leaf);
+    this.view.focusCalendar();
+  }
+
+  /**
+   * Insert the events of a daily note's day, from the vault's .ics files,
+   * at the cursor. New daily notes get them from `{{agenda}}` in their
+   * template instead.
+   */
+  insertAgenda(editor: Editor, { file }: MarkdownFileInfo): void {
+    const date = getDateFromFile(file, "day");
+    const agenda = getAgenda(getAllCalendarEvents(), date);
+    if (!agenda) {
+      new Notice(`No events on ${date.format("LL")}`);
+      return;
+    }
+    editor.replaceSelection(`${agenda}\n`);
+  }
+
+  exportToIcs(): void {
+    const today = window.moment();
+    createDateRangePromptDialog({
+      cta: "Export",
+      defaultStart: today.clone().startOf("year"),
+      defaultEnd: today,
+      onAccept: async (start, end) => {
+        const { file, numNotes, numTasks } = await exportToIcs(start, end);
+        new Notice(
+          `Exported ${numNotes} notes and ${numTasks} tasks to ${file.path}`
+        );
+      },
+      title: "Export to iCalendar",
     });
+  }
+
+  async showStreak(): Promise<void> {
+    const stats = await getStreakStats(
+      get(dailyNotes),
+      this.options,
+      window.moment()
+    );
+    new Notice(formatStreakStats(stats));
+  }
+
+  async openYearHeatmap(): Promise<void> {
+    const { workspace } = this.app;
+    const [existingLeaf] = workspace.getLeavesOfType(VIEW_TYPE_YEAR_HEATMAP);
+    if (existingLeaf) {
+      workspace.revealLeaf(existingLeaf);
+      return;
+    }
+    await workspace.getUnpinnedLeaf().setViewState({
+      type: VIEW_TYPE_YEAR_HEATMAP,
+      active: true,
+    });
+  }
+
+  async loadOptions(): Promise<void> {
+    const { settings: options, repairedFields } = parseSettings(
+      await this.loadData()
+    );
+    if (repairedFields.length) {
+      console.warn(
+        "[Calendar] Reset invalid settings to their defaults:",
+        repairedFields.join(", ")
+      );
+    }
+    settings.set(options);
+
+    await this.saveData(this.options);
+  }
+
+  exportOptions(): string {
+    return exportSettings(this.options);
+  }
 
+  /**
+   * Replace all settings with ones exported by `exportOptions`. Returns
+   * the fields that were invalid and reset to their defaults.
+   */
+  async importOptions(json: string): Promise<string[]> {
+    const { settings: options, repairedFields } = importSettings(json);
+    settings.set(options);
     await this.saveData(this.options);
+    return repairedFields;
   }
 
   async writeOptions(
@@ -1,15 +1,76 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import { appHasDailyNotesPluginLoaded } from "obsidian-daily-notes-interface";
+import { configureGlobalMomentLocale } from "obsidian-calendar-ui";
 import type { ILocaleOverride, IWeekStartOption } from "obsidian-calendar-ui";
 
-import { DEFAULT_WEEK_FORMAT, DEFAULT_WORDS_PER_DOT } from "src/constants";
+import {
+  DEFAULT_MONTH_FORMAT,
+  DEFAULT_QUARTER_FORMAT,
+  DEFAULT_WEEK_FORMAT,
+  DEFAULT_WORDS_PER_DOT,
+  DEFAULT_YEAR_FORMAT,
+} from "src/constants";
+import {
+  formatNoteName,
+  getGranularityConfig,
+  getPeriodicNoteSettings,
+  IGranularity,
+  isManagedByPeriodicNotes,
+  validateFormat,
+} from "src/granularity";
+import { ImportSettingsModal } from "src/ui/modal";
 
 import type CalendarPlugin from "./main";
 
+export type IDisplayMode = "month" | "week" | "two-months" | "three-months";
+
+export type IDropAction = "link" | "date-property";
+
+export type IWeekNumbering = "locale" | "iso";
+
+export type IPropertyComparison =
+  | "exists"
+  | "is"
+  | "is-not"
+  | "contains"
+  | "greater-than"
+  | "less-than";
+
+export type IPropertyRuleAction = "color" | "dot" | "class";
+
+/**
+ * Style the days whose note has a frontmatter property that satisfies
+ * the comparison.
+ */
+export interface IPropertyRule {
+  property: string;
+  comparison: IPropertyComparison;
+  value: string;
+  action: IPropertyRuleAction;
+  // Used by the "color" and "dot" actions
+  color: string;
+  // Used by the "class" action
+  className: string;
+}
+
 export interface ISettings {
+  // Version of the settings schema, see `settingsSchema.ts`
+  version: number;
+
   wordsPerDot: number;
   weekStart: IWeekStartOption;
+  // ISO 8601 weeks always start on Monday, regardless of `weekStart`
+  weekNumbering: IWeekNumbering;
+  // Month the fiscal year starts in, from 1 (January) to 12
+  fiscalYearStart: number;
   shouldConfirmBeforeCreate: boolean;
+  displayMode: IDisplayMode;
+  dropAction: IDropAction;
+  showDaySummary: boolean;
+  // Frontmatter property that puts any note on the calendar
+  dateProperty: string;
+  // JSON or CSV file with holidays, birthdays and other special dates
+  specialDatesFile: string;
 
   // Weekly Note settings
   showWeeklyNote: boolean;
@@ -17,10 +78,29 @@ export interface ISettings {
   weeklyNoteTemplate: string;
   weeklyNoteFolder: string;
 
+  // Monthly, Quarterly & Yearly Note settings, unless Periodic Notes
+  // manages them
+  monthlyNoteFormat: string;
+  monthlyNoteTemplate: string;
+  monthlyNoteFolder: string;
+  quarterlyNoteFormat: string;
+  quarterlyNoteTemplate: string;
+  quarterlyNoteFolder: string;
+  yearlyNoteFormat: string;
+  yearlyNoteTemplate: string;
+  yearlyNoteFolder: string;
+
   localeOverride: ILocaleOverride;
+
+  // Streaks
+  showStreak: boolean;
+  streakMinWords: number;
+  streakRequiredTag: string;
+
+  propertyRules: IPropertyRule[];
 }
 
-const weekdays = [
+export const weekdays = [
   "sunday",
   "monday",
   "tuesday",
@@ -30,19 +110,74 @@ const weekdays = [
   "saturday",
 ];
 
-export const defaultSettings = Object.freeze({
-  shouldConfirmBeforeCreate: true,
-  weekStart: "locale" as IWeekStartOption,
-
-  wordsPerDot: DEFAULT_WORDS_PER_DOT,
+export const displayModes: Record<IDisplayMode, string> = {
+  month: "Month",
+  week: "Week strip",
+  "two-months": "Two months",
+  "three-months": "Three months",
+};
+
+export const weekNumberings: Record<IWeekNumbering, string> = {
+  locale: "Locale",
+  iso: "ISO 8601",
+};
+
+export const dropActions: Record<IDropAction, string> = {
+  link: "Link it from the daily note",
+  "date-property": "Set its date property",
+};
+
+export const propertyComparisons: Record<IPropertyComparison, string> = {
+  exists: "exists",
+  is: "is",
+  "is-not": "is not",
+  contains: "contains",
+  "greater-than": "is greater than",
+  "less-than": "is less than",
+};
+
+export const propertyRuleActions: Record<IPropertyRuleAction, string> = {
+  color: "Color the day",
+  dot: "Add a dot",
+  class: "Add a class",
+};
+
+type INoteSettingGranularity = Exclude<IGranularity, "day">;
+
+const defaultNoteFormats: Record<INoteSettingGranularity, string> = {
+  week: DEFAULT_WEEK_FORMAT,
+  month: DEFAULT_MONTH_FORMAT,
+  quarter: DEFAULT_QUARTER_FORMAT,
+  year: DEFAULT_YEAR_FORMAT,
+};
+
+/**
+ * The key of a note setting, e.g. `monthlyNoteFormat`.
+ */
+function getNoteSettingKey(
+  granularity: INoteSettingGranularity,
+  setting: "Format" | "Template" | "Folder"
+): keyof ISettings {
+  const { periodicity } = getGranularityConfig(granularity);
+  return `${periodicity}Note${setting}` as keyof ISettings;
+}
 
-  showWeeklyNote: false,
-  weeklyNoteFormat: "",
-  weeklyNoteTemplate: "",
-  weeklyNoteFolder: "",
+/**
+ * The capitalized periodicity of a granularity, e.g. "Monthly".
+ */
+function getNoteLabel(granularity: INoteSettingGranularity): string {
+  const { periodicity } = getGranularityConfig(granularity);
+  return periodicity.charAt(0).toUpperCase() + periodicity.slice(1);
+}
 
-  localeOverride: "system-default",
-});
+export const defaultPropertyRule: IPropertyRule = {
+  property: "",
+  comparison: "is",
+  value: "",
+  action: "color",
+  color: "#e06c75",
+  className: "",
+};
 
 export function appHasPeriodicNotesPluginLoaded(): boolean {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -50,6 +185,31 @@ export function appHasPeriodicNotesPluginLoaded(): boolean {
   return periodicNotes && periodicNotes.settings?.weekly?.enabled;
 }
 
+/**
+ * Set up Moment's global locale, which the calendar grid, the weekly note
+ * dateUIDs and the week formats (`gggg`, `ww`) all rely on. With ISO 8601
+ * week numbering, the locale weeks are made to match the ISO weeks.
+ */
+export function configureMomentLocale({
+  localeOverride,
+  weekStart,
+  weekNumbering,
+}: ISettings): void {
+  const isIso = weekNumbering === "iso";
+  const locale = configureGlobalMomentLocale(
+    localeOverride,
+    isIso ? "monday" : weekStart
+  );
+  // Only the first day of the week is set above, so the first week of the
+  // year has to be restored after switching back from ISO weeks
+  window.moment.updateLocale(locale, {
+    week: {
+      dow: window.moment.localeData().firstDayOfWeek(),
+      doy: isIso ? 4 : window._bundledLocaleWeekSpec.doy,
+    },
+  });
+}
+
 export class CalendarSettingsTab extends PluginSettingTab {
   private plugin: CalendarPlugin;
 
@@ -78,8 +238,15 @@ export class CalendarSettingsTab extends PluginSettingTab {
       text: "General Settings",
     });
     this.addDotThresholdSetting();
+    this.addWeekNumberingSetting();
     this.addWeekStartSetting();
+    this.addFiscalYearStartSetting();
+    this.addDisplayModeSetting();
     this.addConfirmCreateSetting();
+    this.addDropActionSetting();
+    this.addDaySummarySetting();
+    this.addDatePropertySetting();
+    this.addSpecialDatesFileSetting();
     this.addShowWeeklyNoteSetting();
 
     if (
@@ -94,15 +261,50 @@ export class CalendarSettingsTab extends PluginSettingTab {
         text:
           "Note: Weekly Note settings are moving. You are encouraged to install the 'Periodic Notes' plugin to keep the functionality in the future.",
       });
-      this.addWeeklyNoteFormatSetting();
-      this.addWeeklyNoteTemplateSetting();
-      this.addWeeklyNoteFolderSetting();
+      this.addNoteSettings("week");
     }
 
+    (["month", "quarter", "year"] as INoteSettingGranularity[]).forEach(
+      (granularity) => {
+        const { periodicity } = getGranularityConfig(granularity);
+        const label = getNoteLabel(granularity);
+        this.containerEl.createEl("h3", {
+          text: `${label} Note Settings`,
+        });
+        if (isManagedByPeriodicNotes(periodicity)) {
+          this.containerEl.createEl("p", {
+            cls: "setting-item-description",
+            text: `${label} notes are managed by the 'Periodic Notes' plugin. Change their format, template and folder in its settings.`,
+          });
+        } else {
+          this.addNoteSettings(granularity);
+        }
+      }
+    );
+
+    this.containerEl.createEl("h3", {
+      text: "Streaks",
+    });
+    this.addShowStreakSetting();
+    this.addStreakMinWordsSetting();
+    this.addStreakRequiredTagSetting();
+
+    this.containerEl.createEl("h3", {
+      text: "Property Rules",
+    });
+    this.containerEl.createEl("p", {
+      cls: "setting-item-description",
+      text:
+        "Style days and weeks based on the frontmatter of their note, e.g. color the days where 'mood' is 'great'.",
+    });
+    this.addPropertyRuleSettings();
+
     this.containerEl.createEl("h3", {
       text: "Advanced Settings",
     });
     this.addLocaleOverrideSetting();
+    this.addExportSettingsSetting();
+    this.addImportSettingsSetting();
   }
 
   addDotThresholdSetting(): void {
@@ -115,7 +317,7 @@ export class CalendarSettingsTab extends PluginSettingTab {
         textfield.setValue(String(this.plugin.options.wordsPerDot));
         textfield.onChange(async (value) => {
           this.plugin.writeOptions(() => ({
-            wordsPerDot: value !== "" ? Number(value) : undefined,
+            wordsPerDot: value !== "" ? Number(value) : DEFAULT_WORDS_PER_DOT,
           }));
         });
       });
@@ -128,11 +330,15 @@ export class CalendarSettingsTab extends PluginSettingTab {
     const localeWeekStartNum = window._bundledLocaleWeekSpec.dow;
     const localeWeekStart = moment.weekdays()[localeWeekStartNum];
 
+    const isIso = this.plugin.options.weekNumbering === "iso";
     new Setting(this.containerEl)
       .setName("Start week on:")
       .setDesc(
-        "Choose what day of the week to start. Select 'Locale default' to use the default specified by moment.js"
+        isIso
+          ? "ISO 8601 weeks always start on Monday"
+          : "Choose what day of the week to start. Select 'Locale default' to use the default specified by moment.js"
       )
+      .setDisabled(isIso)
       .addDropdown((dropdown) => {
         dropdown.addOption("locale", `Locale default (${localeWeekStart})`);
         localizedWeekdays.forEach((day, i) => {
@@ -147,6 +353,71 @@ export class CalendarSettingsTab extends PluginSettingTab {
       });
   }
 
+  addWeekNumberingSetting(): void {
+    const setting = new Setting(this.containerEl)
+      .setName("Week numbering")
+      .setDesc(
+        "Number weeks like your locale, or by ISO 8601, where weeks start on Monday and week 1 contains January 4th. Applies to the week numbers, weekly notes and their format tokens (w, gggg)"
+      )
+      .addDropdown((dropdown) => {
+        Object.entries(weekNumberings).forEach(([value, label]) => {
+          dropdown.addOption(value, label);
+        });
+        dropdown.setValue(this.plugin.options.weekNumbering);
+        dropdown.onChange(async (value) => {
+          await this.plugin.writeOptions(() => ({
+            weekNumbering: value as IWeekNumbering,
+          }));
+          this.display(); // update the week start and format warnings
+        });
+      });
+
+    const { format } = getPeriodicNoteSettings("week");
+    const error = validateFormat(format, "week");
+    if (error) {
+      setting.descEl.createDiv({
+        cls: "mod-warning",
+        text: `Check your weekly note format: ${error}`,
+      });
+    }
+  }
+
+  addFiscalYearStartSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Fiscal year starts in")
+      .setDesc(
+        "Quarterly and yearly notes follow the fiscal year. A fiscal year is named after the year it starts in, e.g. April 2021 is in Q1 2021 when it starts in April and in Q2 2021 when it starts in January"
+      )
+      .addDropdown((dropdown) => {
+        window.moment.months().forEach((month, i) => {
+          dropdown.addOption(String(i + 1), month);
+        });
+        dropdown.setValue(String(this.plugin.options.fiscalYearStart));
+        dropdown.onChange(async (value) => {
+          this.plugin.writeOptions(() => ({ fiscalYearStart: Number(value) }));
+        });
+      });
+  }
+
+  addDisplayModeSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Display mode")
+      .setDesc(
+        "Show a single month, a compact strip of one week, or several months stacked for planning. Each calendar view can override this from its menu."
+      )
+      .addDropdown((dropdown) => {
+        Object.entries(displayModes).forEach(([value, label]) => {
+          dropdown.addOption(value, label);
+        });
+        dropdown.setValue(this.plugin.options.displayMode);
+        dropdown.onChange(async (value) => {
+          this.plugin.writeOptions(() => ({
+            displayMode: value as IDisplayMode,
+          }));
+        });
+      });
+  }
+
   addConfirmCreateSetting(): void {
     new Setting(this.containerEl)
       .setName("Confirm before creating new note")
@@ -161,6 +432,112 @@ export class CalendarSettingsTab extends PluginSettingTab {
       });
   }
 
+  addDropActionSetting(): void {
+    new Setting(this.containerEl)
+      .setName("When a file is dropped on a day")
+      .setDesc(
+        "Append a link to the file to the day's daily note, creating the note if needed, or set the 'date' property of the dropped note instead"
+      )
+      .addDropdown((dropdown) => {
+        Object.entries(dropActions).forEach(([value, label]) => {
+          dropdown.addOption(value, label);
+        });
+        dropdown.setValue(this.plugin.options.dropAction);
+        dropdown.onChange(async (value) => {
+          this.plugin.writeOptions(() => ({
+            dropAction: value as IDropAction,
+          }));
+        });
+      });
+  }
+
+  addDaySummarySetting(): void {
+    new Setting(this.containerEl)
+      .setName("Show day summary on hover")
+      .setDesc(
+        "Summarize a day when hovering over it. Hold Ctrl/Cmd to show the page preview instead"
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.showDaySummary);
+        toggle.onChange(async (value) => {
+          this.plugin.writeOptions(() => ({ showDaySummary: value }));
+        });
+      });
+  }
+
+  addDatePropertySetting(): void {
+    new Setting(this.containerEl)
+      .setName("Date property")
+      .setDesc(
+        "Show notes that have this frontmatter property on the calendar, e.g. meeting notes with 'date: 2021-02-26'. Leave empty to turn this off"
+      )
+      .addText((textfield) => {
+        textfield.setPlaceholder("date");
+        textfield.setValue(this.plugin.options.dateProperty);
+        textfield.onChange(async (value) => {
+          this.plugin.writeOptions(() => ({ dateProperty: value.trim() }));
+        });
+      });
+  }
+
+  addSpecialDatesFileSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Special dates file")
+      .setDesc(
+        "A JSON or CSV file in your vault with holidays, birthdays and other special dates to show on the calendar, e.g. Calendar/Holidays.json"
+      )
+      .addText((textfield) => {
+        textfield.setPlaceholder("Holidays.json");
+        textfield.setValue(this.plugin.options.specialDatesFile);
+        textfield.onChange(async (value) => {
+          this.plugin.writeOptions(() => ({ specialDatesFile: value.trim() }));
+        });
+      });
+  }
+
+  addShowStreakSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Show streak")
+      .setDesc("Show your current and longest streak above the calendar")
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.showStreak);
+        toggle.onChange(async (value) => {
+          this.plugin.writeOptions(() => ({ showStreak: value }));
+        });
+      });
+  }
+
+  addStreakMinWordsSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Minimum words")
+      .setDesc(
+        "Only count days whose daily note has at least this many words. Set this to 0 to count every daily note"
+      )
+      .addText((textfield) => {
+        textfield.setPlaceholder("0");
+        textfield.inputEl.type = "number";
+        textfield.setValue(String(this.plugin.options.streakMinWords));
+        textfield.onChange(async (value) => {
+          this.plugin.writeOptions(() => ({
+            streakMinWords: value !== "" ? Number(value) : 0,
+          }));
+        });
+      });
+  }
+
+  addStreakRequiredTagSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Required tag")
+      .setDesc("Only count days whose daily note has this tag, e.g. #journal")
+      .addText((textfield) => {
+        textfield.setPlaceholder("#journal");
+        textfield.setValue(this.plugin.options.streakRequiredTag);
+        textfield.onChange(async (value) => {
+          this.plugin.writeOptions(() => ({ streakRequiredTag: value }));
+        });
+      });
+  }
+
   addShowWeeklyNoteSetting(): void {
     new Setting(this.containerEl)
       .setName("Show week number")
@@ -174,41 +551,75 @@ export class CalendarSettingsTab extends PluginSettingTab {
       });
   }
 
-  addWeeklyNoteFormatSetting(): void {
-    new Setting(this.containerEl)
-      .setName("Weekly note format")
-      .setDesc("For more syntax help, refer to format reference")
-      .addText((textfield) => {
-        textfield.setValue(this.plugin.options.weeklyNoteFormat);
-        textfield.setPlaceholder(DEFAULT_WEEK_FORMAT);
-        textfield.onChange(async (value) => {
-          this.plugin.writeOptions(() => ({ weeklyNoteFormat: value }));
-        });
+  addNoteSettings(granularity: INoteSettingGranularity): void {
+    this.addNoteFormatSetting(granularity);
+    this.addNoteTemplateSetting(granularity);
+    this.addNoteFolderSetting(granularity);
+  }
+
+  addNoteFormatSetting(granularity: INoteSettingGranularity): void {
+    const key = getNoteSettingKey(granularity, "Format");
+    const defaultFormat = defaultNoteFormats[granularity];
+
+    const setting = new Setting(this.containerEl).setName(
+      `${getNoteLabel(granularity)} note format`
+    );
+    const updateDesc = (value: string) => {
+      const format = value.trim() || defaultFormat;
+      const error = validateFormat(format, granularity);
+      setting.descEl.empty();
+      setting.descEl.createDiv({
+        text: "For more syntax help, refer to format reference",
       });
+      setting.descEl.createDiv({
+        text: `Your current syntax looks like this: ${formatNoteName(
+          window.moment(),
+          granularity,
+          format
+        )}`,
+      });
+      if (error) {
+        setting.descEl.createDiv({ cls: "mod-warning", text: error });
+      }
+    };
+
+    setting.addText((textfield) => {
+      textfield.setValue(this.plugin.options[key] as string);
+      textfield.setPlaceholder(defaultFormat);
+      textfield.onChange(async (value) => {
+        updateDesc(value);
+        this.plugin.writeOptions(() => ({ [key]: value }));
+      });
+    });
+    updateDesc(this.plugin.options[key] as string);
   }
 
-  addWeeklyNoteTemplateSetting(): void {
+  addNoteTemplateSetting(granularity: INoteSettingGranularity): void {
+    const { periodicity } = getGranularityConfig(granularity);
+    const key = getNoteSettingKey(granularity, "Template");
     new Setting(this.containerEl)
-      .setName("Weekly note template")
+      .setName(`${getNoteLabel(granularity)} note template`)
       .setDesc(
-        "Choose the file you want to use as the template for your weekly notes"
+        `Choose the file you want to use as the template for your ${periodicity} notes`
       )
       .addText((textfield) => {
-        textfield.setValue(this.plugin.options.weeklyNoteTemplate);
+        textfield.setValue(this.plugin.options[key] as string);
         textfield.onChange(async (value) => {
-          this.plugin.writeOptions(() => ({ weeklyNoteTemplate: value }));
+          this.plugin.writeOptions(() => ({ [key]: value }));
         });
       });
   }
 
-  addWeeklyNoteFolderSetting(): void {
+  addNoteFolderSetting(granularity: INoteSettingGranularity): void {
+    const { periodicity } = getGranularityConfig(granularity);
+    const key = getNoteSettingKey(granularity, "Folder");
     new Setting(this.containerEl)
-      .setName("Weekly note folder")
-      .setDesc("New weekly notes will be placed here")
+      .setName(`${getNoteLabel(granularity)} note folder`)
+      .setDesc(`New ${periodicity} notes will be placed here`)
       .addText((textfield) => {
-        textfield.setValue(this.plugin.options.weeklyNoteFolder);
+        textfield.setValue(this.plugin.options[key] as string);
         textfield.onChange(async (value) => {
-          this.plugin.writeOptions(() => ({ weeklyNoteFolder: value }));
+          this.plugin.writeOptions(() => ({ [key]: value }));
         });
       });
   }
@@ -237,5 +648,137 @@ export class CalendarSettingsTab extends PluginSettingTab {
       });
   }
 
+  addExportSettingsSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Export settings")
+      .setDesc(
+        "Copy all calendar settings to the clipboard as JSON, e.g. to share one configuration with your team"
+      )
+      .addButton((button) => {
+        button.setButtonText("Copy");
+        button.onClick(async () => {
+          await navigator.clipboard.writeText(this.plugin.exportOptions());
+          new Notice("Calendar settings copied to the clipboard");
+        });
+      });
+  }
+
+  addImportSettingsSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Import settings")
+      .setDesc("Replace all calendar settings with exported ones")
+      .addButton((button) => {
+        button.setButtonText("Import…");
+        button.onClick(() => {
+          new ImportSettingsModal(this.app, async (json) => {
+            const repairedFields = await this.plugin.importOptions(json);
+            new Notice(
+              repairedFields.length
+                ? `Calendar settings imported. Invalid values were reset to their defaults: ${repairedFields.join(
+                    ", "
+                  )}`
+                : "Calendar settings imported"
+            );
+            this.display();
+          }).open();
+        });
+      });
+  }
+
+  updatePropertyRule(index: number, change: Partial<IPropertyRule>): void {
+    this.plugin.writeOptions(({ propertyRules }) => ({
+      propertyRules: propertyRules.map((rule, i) =>
+        i === index ? { ...rule, ...change } : rule
+      ),
+    }));
+  }
+
+  addPropertyRuleSettings(): void {
+    const { propertyRules } = this.plugin.options;
+
+    propertyRules.forEach((rule, index) => {
+      const setting = new Setting(this.containerEl)
+        .addText((textfield) => {
+          textfield.setPlaceholder("Property");
+          textfield.setValue(rule.property);
+          textfield.onChange(async (value) => {
+            this.updatePropertyRule(index, { property: value });
+          });
+        })
+        .addDropdown((dropdown) => {
+          Object.entries(propertyComparisons).forEach(([value, label]) => {
+            dropdown.addOption(value, label);
+          });
+          dropdown.setValue(rule.comparison);
+          dropdown.onChange(async (value) => {
+            this.updatePropertyRule(index, {
+              comparison: value as IPropertyComparison,
+            });
+            this.display(); // show/hide the value field
+          });
+        });
+
+      if (rule.comparison !== "exists") {
+        setting.addText((textfield) => {
+          textfield.setPlaceholder("Value");
+          textfield.setValue(rule.value);
+          textfield.onChange(async (value) => {
+            this.updatePropertyRule(index, { value });
+          });
+        });
+      }
+
+      setting.addDropdown((dropdown) => {
+        Object.entries(propertyRuleActions).forEach(([value, label]) => {
+          dropdown.addOption(value, label);
+        });
+        dropdown.setValue(rule.action);
+        dropdown.onChange(async (value) => {
+          this.updatePropertyRule(index, {
+            action: value as IPropertyRuleAction,
+          });
+          this.display(); // switch between the color and class fields
+        });
+      });
 
+      if (rule.action === "class") {
+        setting.addText((textfield) => {
+          textfield.setPlaceholder("Class name");
+          textfield.setValue(rule.className);
+          textfield.onChange(async (value) => {
+            this.updatePropertyRule(index, { className: value });
+          });
+        });
+      } else {
+        setting.addText((textfield) => {
+          textfield.inputEl.type = "color";
+          textfield.setValue(rule.color);
+          textfield.onChange(async (value) => {
+            this.updatePropertyRule(index, { color: value });
+          });
+        });
+      }
+
+      setting.addExtraButton((button) => {
+        button.setIcon("trash");
+        button.setTooltip("Remove rule");
+        button.onClick(async () => {
+          await this.plugin.writeOptions(({ propertyRules }) => ({
+            propertyRules: propertyRules.filter((_rule, i) => i !== index),
+          }));
+          this.display();
+        });
+      });
+    });
+
+    new Setting(this.containerEl).addButton((button) => {
+      button.setButtonText("Add rule");
+      button.onClick(async () => {
+        await this.plugin.writeOptions(({ propertyRules }) => ({
+          propertyRules: [...propertyRules, { ...defaultPropertyRule }],
+        }));
+        this.display();
+      });
+    });
+  }
 }
@@ -0,0 +1,110 @@
+import { SETTINGS_VERSION } from "src/constants";
+
+import {
+  exportSettings,
+  importSettings,
+  parseSettings,
+  SettingsImportError,
+} from "./settingsSchema";
+import { defaultSettings } from "./settingsStore";
+
+describe("parseSettings", () => {
+  test("uses the defaults for anything but an object", () => {
+    expect(parseSettings(null)).toEqual({
+      settings: defaultSettings,
+      repairedFields: [],
+    });
+  });
+
+  test("migrates settings saved before they were versioned", () => {
+    const { settings, repairedFields } = parseSettings({
+      shouldStartWeekOnMonday: true,
+      wordsPerDot: 100,
+    });
+
+    expect(settings.version).toEqual(SETTINGS_VERSION);
+    expect(settings.weekStart).toEqual("monday");
+    expect(settings.wordsPerDot).toEqual(100);
+    expect(settings).not.toHaveProperty("shouldStartWeekOnMonday");
+    expect(repairedFields).toEqual([]);
+  });
+
+  test("keeps the first day of the week if it was already set", () => {
+    const { settings } = parseSettings({
+      shouldStartWeekOnMonday: true,
+      weekStart: "saturday",
+    });
+
+    expect(settings.weekStart).toEqual("saturday");
+  });
+
+  test("resets invalid fields to their default", () => {
+    const { settings, repairedFields } = parseSettings({
+      version: SETTINGS_VERSION,
+      weekStart: "someday",
+      fiscalYearStart: 13,
+      wordsPerDot: -1,
+      showStreak: "yes",
+      dateProperty: "day",
+    });
+
+    expect(settings.weekStart).toEqual(defaultSettings.weekStart);
+    expect(settings.fiscalYearStart).toEqual(defaultSettings.fiscalYearStart);
+    expect(settings.wordsPerDot).toEqual(defaultSettings.wordsPerDot);
+    expect(settings.showStreak).toEqual(defaultSettings.showStreak);
+    expect(settings.dateProperty).toEqual("day");
+    expect(repairedFields.sort()).toEqual(
+      ["fiscalYearStart", "showStreak", "weekStart", "wordsPerDot"].sort()
+    );
+  });
+
+  test("repairs property rules one by one", () => {
+    const { settings, repairedFields } = parseSettings({
+      version: SETTINGS_VERSION,
+      propertyRules: [
+        { property: "mood", comparison: "sounds-like", value: "happy" },
+        "not a rule",
+      ],
+    });
+
+    expect(settings.propertyRules).toHaveLength(1);
+    expect(settings.propertyRules[0].property).toEqual("mood");
+    expect(repairedFields).toEqual([
+      "propertyRules.0.comparison",
+      "propertyRules.1",
+    ]);
+  });
+
+  test("drops unknown fields", () => {
+    const { settings } = parseSettings({ version: 1, theme: "dark" });
+
+    expect(settings).not.toHaveProperty("theme");
+  });
+});
+
+describe("importSettings", () => {
+  test("reads exported settings", () => {
+    const settings = { ...defaultSettings, weekStart: "monday" as const };
+
+    expect(importSettings(exportSettings(settings))).toEqual({
+      settings,
+      repairedFields: [],
+    });
+  });
+
+  test("rejects settings from a newer version", () => {
+    const json = JSON.stringify({ version: SETTINGS_VERSION + 1 });
+
+    expect(() => importSettings(json)).toThrow(SettingsImportError);
+  });
+
+  test("rejects invalid JSON", () => {
+    expect(() => importSettings("{ weekStart: monday")).toThrow(
+      SettingsImportError
+    );
+  });
+
+  test("rejects JSON that isn't an object", () => {
+    expect(() => importSettings("[]")).toThrow(SettingsImportError);
+  });
+});
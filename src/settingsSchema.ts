@@ -0,0 +1,211 @@
+import { SETTINGS_VERSION } from "src/constants";
+
+import {
+  defaultPropertyRule,
+  displayModes,
+  dropActions,
+  IPropertyRule,
+  ISettings,
+  propertyComparisons,
+  propertyRuleActions,
+  weekdays,
+  weekNumberings,
+} from "./settings";
+import { defaultSettings } from "./settingsStore";
+
+type ISettingsData = Record<string, unknown>;
+
+type IValidator = (value: unknown) => boolean;
+
+export class SettingsImportError extends Error {}
+
+export interface ISettingsRepair {
+  settings: ISettings;
+  // Fields that had an invalid value and were reset to their default
+  repairedFields: string[];
+}
+
+/**
+ * Each migration upgrades saved settings from the version it's keyed by
+ * to the next one. Settings saved before the schema was versioned are
+ * version 0.
+ */
+const migrations: Record<number, (data: ISettingsData) => ISettingsData> = {
+  // The first day of the week used to be a Monday/Sunday toggle
+  0: ({ shouldStartWeekOnMonday, ...data }) =>
+    shouldStartWeekOnMonday && !data.weekStart
+      ? { ...data, weekStart: "monday" }
+      : data,
+};
+
+function isBoolean(value: unknown): boolean {
+  return typeof value === "boolean";
+}
+
+function isString(value: unknown): boolean {
+  return typeof value === "string";
+}
+
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isMonth(value: unknown): boolean {
+  return Number.isInteger(value) && Number(value) >= 1 && Number(value) <= 12;
+}
+
+function isOneOf(options: string[]): IValidator {
+  return (value) => options.includes(value as string);
+}
+
+function isObject(value: unknown): value is ISettingsData {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+const validators: Record<keyof ISettings, IValidator> = {
+  version: isNonNegativeNumber,
+  wordsPerDot: isNonNegativeNumber,
+  weekStart: isOneOf(["locale", ...weekdays]),
+  weekNumbering: isOneOf(Object.keys(weekNumberings)),
+  fiscalYearStart: isMonth,
+  shouldConfirmBeforeCreate: isBoolean,
+  displayMode: isOneOf(Object.keys(displayModes)),
+  dropAction: isOneOf(Object.keys(dropActions)),
+  showDaySummary: isBoolean,
+  dateProperty: isString,
+  specialDatesFile: isString,
+
+  showWeeklyNote: isBoolean,
+  weeklyNoteFormat: isString,
+  weeklyNoteTemplate: isString,
+  weeklyNoteFolder: isString,
+  monthlyNoteFormat: isString,
+  monthlyNoteTemplate: isString,
+  monthlyNoteFolder: isString,
+  quarterlyNoteFormat: isString,
+  quarterlyNoteTemplate: isString,
+  quarterlyNoteFolder: isString,
+  yearlyNoteFormat: isString,
+  yearlyNoteTemplate: isString,
+  yearlyNoteFolder: isString,
+
+  localeOverride: isString,
+
+  showStreak: isBoolean,
+  streakMinWords: isNonNegativeNumber,
+  streakRequiredTag: isString,
+
+  propertyRules: Array.isArray,
+};
+
+const propertyRuleValidators: Record<keyof IPropertyRule, IValidator> = {
+  property: isString,
+  comparison: isOneOf(Object.keys(propertyComparisons)),
+  value: isString,
+  action: isOneOf(Object.keys(propertyRuleActions)),
+  color: isString,
+  className: isString,
+};
+
+/**
+ * Copy the valid fields of `data` over `defaults`. Missing fields get
+ * their default silently, invalid ones are reported as repaired.
+ */
+function repair<T>(
+  data: ISettingsData,
+  defaults: T,
+  fieldValidators: Record<keyof T, IValidator>,
+  repairedFields: string[],
+  prefix = ""
+): T {
+  const result = { ...defaults };
+  (Object.keys(fieldValidators) as (keyof T)[]).forEach((key) => {
+    const value = data[key as string];
+    if (value === undefined) {
+      return;
+    }
+    if (fieldValidators[key](value)) {
+      result[key] = value as T[keyof T];
+    } else {
+      repairedFields.push(`${prefix}${String(key)}`);
+    }
+  });
+  return result;
+}
+
+function migrateSettings(data: ISettingsData): ISettingsData {
+  let version = isNonNegativeNumber(data.version) ? Number(data.version) : 0;
+  let migrated = data;
+  for (; version < SETTINGS_VERSION; version++) {
+    migrated = migrations[version](migrated);
+  }
+  return { ...migrated, version: SETTINGS_VERSION };
+}
+
+/**
+ * Bring saved settings up to date: run the migrations for the version
+ * they were saved with, then reset invalid values to their defaults and
+ * drop fields the calendar no longer knows about.
+ */
+export function parseSettings(data: unknown): ISettingsRepair {
+  const repairedFields: string[] = [];
+  if (!isObject(data)) {
+    return { settings: { ...defaultSettings }, repairedFields };
+  }
+
+  const settings = repair(
+    migrateSettings(data),
+    defaultSettings as ISettings,
+    validators,
+    repairedFields
+  );
+  const propertyRules: IPropertyRule[] = [];
+  settings.propertyRules.forEach((rule, i) => {
+    if (isObject(rule)) {
+      propertyRules.push(
+        repair(
+          rule,
+          defaultPropertyRule,
+          propertyRuleValidators,
+          repairedFields,
+          `propertyRules.${i}.`
+        )
+      );
+    } else {
+      repairedFields.push(`propertyRules.${i}`);
+    }
+  });
+  settings.propertyRules = propertyRules;
+  return { settings, repairedFields };
+}
+
+/**
+ * Serialize the settings to share them, e.g. with a team.
+ */
+export function exportSettings(settings: ISettings): string {
+  return JSON.stringify({ ...settings, version: SETTINGS_VERSION }, null, 2);
+}
+
+/**
+ * Parse settings exported by `exportSettings`, possibly from an older
+ * version of the calendar.
+ */
+export function importSettings(json: string): ISettingsRepair {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    throw new SettingsImportError(
+      `The settings aren't valid JSON: ${err.message}`
+    );
+  }
+  if (!isObject(data)) {
+    throw new SettingsImportError("The settings must be a JSON object");
+  }
+  if (Number(data.version) > SETTINGS_VERSION) {
+    throw new SettingsImportError(
+      "The settings are from a newer version of the calendar. Update the plugin to import them."
+    );
+  }
+  return parseSettings(data);
+}
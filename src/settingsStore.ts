@@ -0,0 +1,57 @@
+import type { IWeekStartOption } from "obsidian-calendar-ui";
+import { writable } from "svelte/store";
+
+import { DEFAULT_WORDS_PER_DOT, SETTINGS_VERSION } from "src/constants";
+
+import type {
+  IDisplayMode,
+  IDropAction,
+  IPropertyRule,
+  ISettings,
+  IWeekNumbering,
+} from "./settings";
+
+export const defaultSettings = Object.freeze({
+  version: SETTINGS_VERSION,
+  shouldConfirmBeforeCreate: true,
+  weekStart: "locale" as IWeekStartOption,
+  weekNumbering: "locale" as IWeekNumbering,
+  fiscalYearStart: 1,
+
+  wordsPerDot: DEFAULT_WORDS_PER_DOT,
+  displayMode: "month" as IDisplayMode,
+  dropAction: "link" as IDropAction,
+  showDaySummary: false,
+  dateProperty: "date",
+  specialDatesFile: "",
+
+  showWeeklyNote: false,
+  weeklyNoteFormat: "",
+  weeklyNoteTemplate: "",
+  weeklyNoteFolder: "",
+
+  monthlyNoteFormat: "",
+  monthlyNoteTemplate: "",
+  monthlyNoteFolder: "",
+  quarterlyNoteFormat: "",
+  quarterlyNoteTemplate: "",
+  quarterlyNoteFolder: "",
+  yearlyNoteFormat: "",
+  yearlyNoteTemplate: "",
+  yearlyNoteFolder: "",
+
+  localeOverride: "system-default",
+
+  showStreak: true,
+  streakMinWords: 0,
+  streakRequiredTag: "",
+
+  propertyRules: [] as IPropertyRule[],
+});
+
+/**
+ * The current settings. This module imports nothing but types from the
+ * rest of the calendar, so that any module can read the settings without
+ * an import cycle.
+ */
+export const settings = writable<ISettings>(defaultSettings);
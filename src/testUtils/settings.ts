@@ -1,20 +1,8 @@
 import type { ISettings } from "src/settings";
+import { defaultSettings } from "src/settingsStore";
 
 export function getDefaultSettings(
   overrides: Partial<ISettings> = {}
 ): ISettings {
-  return Object.assign(
-    {},
-    {
-      weekStart: "sunday",
-      shouldConfirmBeforeCreate: false,
-      wordsPerDot: 50,
-      showWeeklyNote: false,
-      weeklyNoteFolder: "",
-      weeklyNoteFormat: "",
-      weeklyNoteTemplate: "",
-      localeOverride: "system-default",
-    },
-    overrides
-  );
+  return { ...defaultSettings, ...overrides };
 }
@@ -1,6 +1,7 @@
 export class TFile {}
 export class PluginSettingTab {}
 export class Modal {}
+export class FuzzySuggestModal {}
 export class Notice {}
 export function normalizePath(): string {
   return "";
@@ -0,0 +1,192 @@
+import type { Moment } from "moment";
+import { App, Modal, Notice, Setting } from "obsidian";
+
+import {
+  formatNoteName,
+  getGranularities,
+  getGranularityConfig,
+  IGranularity,
+} from "src/granularity";
+import {
+  backfillPeriodicNotes,
+  getMissingPeriods,
+  IBackfillResult,
+} from "src/io/backfill";
+
+// Keep the preview short for long ranges
+const MAX_PREVIEWED_NOTES = 10;
+
+/**
+ * Create all missing notes of a date range at once, e.g. after a
+ * vacation. The missing notes are previewed before anything is created.
+ */
+export class BackfillModal extends Modal {
+  private granularity: IGranularity = "day";
+  private start: Moment;
+  private end: Moment;
+  private missing: Moment[] = [];
+  private isRunning = false;
+  private isCancelled = false;
+  private isDone = false;
+
+  private previewEl: HTMLElement;
+  private buttonEl: HTMLButtonElement;
+
+  constructor(app: App) {
+    super(app);
+    this.end = window.moment().startOf("day");
+    this.start = this.end.clone().subtract(1, "week");
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: "Create missing notes" });
+
+    new Setting(contentEl).setName("Notes").addDropdown((dropdown) => {
+      getGranularities().forEach((granularity) => {
+        const { periodicity } = getGranularityConfig(granularity);
+        const label =
+          periodicity.charAt(0).toUpperCase() + periodicity.slice(1);
+        dropdown.addOption(granularity, `${label} notes`);
+      });
+      dropdown.setValue(this.granularity);
+      dropdown.onChange((value) => {
+        this.granularity = value as IGranularity;
+        this.updatePreview();
+      });
+    });
+    this.addDateSetting("From", this.start, (date) => (this.start = date));
+    this.addDateSetting("To", this.end, (date) => (this.end = date));
+
+    this.previewEl = contentEl.createDiv("calendar-backfill-preview");
+
+    contentEl.createDiv("modal-button-container", (buttonsEl) => {
+      buttonsEl
+        .createEl("button", { text: "Never mind" })
+        .addEventListener("click", () => this.close());
+
+      this.buttonEl = buttonsEl.createEl("button", { cls: "mod-cta" });
+      this.buttonEl.addEventListener("click", () =>
+        this.isDone ? this.close() : this.backfill()
+      );
+    });
+
+    this.updatePreview();
+  }
+
+  onClose(): void {
+    // Closing the modal stops creating notes
+    this.isCancelled = this.isRunning;
+    this.contentEl.empty();
+  }
+
+  private addDateSetting(
+    name: string,
+    defaultDate: Moment,
+    onChange: (date: Moment) => void
+  ): void {
+    new Setting(this.contentEl).setName(name).addText((textfield) => {
+      textfield.inputEl.type = "date";
+      textfield.setValue(defaultDate.format("YYYY-MM-DD"));
+      textfield.onChange((value) => {
+        const date = window.moment(value, "YYYY-MM-DD", true);
+        if (date.isValid()) {
+          onChange(date);
+          this.updatePreview();
+        }
+      });
+    });
+  }
+
+  private getNoteName(date: Moment): string {
+    return formatNoteName(date, this.granularity);
+  }
+
+  private updatePreview(): void {
+    if (this.isRunning || this.isDone) {
+      return;
+    }
+    this.missing = this.end.isBefore(this.start)
+      ? []
+      : getMissingPeriods(this.start, this.end, this.granularity);
+
+    this.previewEl.empty();
+    const count = this.missing.length;
+    this.previewEl.createEl("p", {
+      text: count
+        ? `${count} ${count === 1 ? "note is" : "notes are"} missing:`
+        : "No notes are missing in this range.",
+    });
+    if (count) {
+      const listEl = this.previewEl.createEl("ul");
+      this.missing.slice(0, MAX_PREVIEWED_NOTES).forEach((date) => {
+        listEl.createEl("li", { text: this.getNoteName(date) });
+      });
+      if (count > MAX_PREVIEWED_NOTES) {
+        listEl.createEl("li", {
+          text: `and ${count - MAX_PREVIEWED_NOTES} more`,
+        });
+      }
+    }
+
+    this.buttonEl.setText(`Create ${count} ${count === 1 ? "note" : "notes"}`);
+    this.buttonEl.disabled = !count;
+  }
+
+  private async backfill(): Promise<void> {
+    const dates = this.missing;
+    this.isRunning = true;
+    this.buttonEl.disabled = true;
+
+    this.previewEl.empty();
+    const progressEl = this.previewEl.createEl("progress", {
+      attr: { max: dates.length, value: 0 },
+    });
+    const statusEl = this.previewEl.createEl("p");
+    const result = await backfillPeriodicNotes(
+      dates,
+      this.granularity,
+      ({ created, failed }) => {
+        progressEl.value = created.length + failed.length;
+        statusEl.setText(
+          `Created ${created.length} of ${dates.length} notes` +
+            (failed.length ? `, ${failed.length} failed…` : "…")
+        );
+      },
+      () => this.isCancelled
+    );
+
+    this.isRunning = false;
+    if (this.isCancelled) {
+      const { created } = result;
+      new Notice(
+        `Stopped after creating ${created.length} ${
+          created.length === 1 ? "note" : "notes"
+        }`
+      );
+      return;
+    }
+    this.showResult(result);
+  }
+
+  private showResult({ created, failed }: IBackfillResult): void {
+    this.previewEl.empty();
+    this.previewEl.createEl("p", {
+      text: `Created ${created.length} ${
+        created.length === 1 ? "note" : "notes"
+      }.`,
+    });
+    if (failed.length) {
+      this.previewEl.createEl("p", {
+        cls: "mod-warning",
+        text: `Failed to create ${failed
+          .map(({ date }) => this.getNoteName(date))
+          .join(", ")}. See the developer console for details.`,
+      });
+    }
+
+    this.isDone = true;
+    this.buttonEl.setText("Done");
+    this.buttonEl.disabled = false;
+  }
+}
@@ -0,0 +1,172 @@
+import type { Moment } from "moment";
+import { TFile } from "obsidian";
+import type { ICalendarSource } from "obsidian-calendar-ui";
+import { get } from "svelte/store";
+
+import { getPeriodicNote, getPeriodicNoteSettings } from "src/granularity";
+
+import DaySummary from "./DaySummary.svelte";
+import { dailyNotes, sources } from "./stores";
+import { getFileNames } from "./utils";
+
+// Long enough to not flash a popover for every day the pointer crosses
+const HOVER_DELAY = 300;
+
+export interface IDaySummaryItem {
+  text: string;
+  // Shown muted after the text, e.g. the names of files
+  details?: string;
+  cls?: string;
+}
+
+/**
+ * A source that also describes the days it decorates in the day summary.
+ * Sources without `getDailySummary` contribute their tooltip instead.
+ */
+export interface IDaySummarySource extends ICalendarSource {
+  getDailySummary?: (date: Moment) => Promise<IDaySummaryItem[]>;
+}
+
+export interface IDaySummary {
+  date: Moment;
+  items: IDaySummaryItem[];
+}
+
+/**
+ * The notes that link to the day, or that its note links to. Links to a
+ * daily note that doesn't exist yet are found by the note's name.
+ */
+function getLinkedNotes(date: Moment, note: TFile | null): TFile[] {
+  const { metadataCache, vault } = window.app;
+  const { format } = getPeriodicNoteSettings("day");
+  const paths = new Set<string>();
+
+  if (note) {
+    Object.keys(metadataCache.resolvedLinks[note.path] || {}).forEach((path) =>
+      paths.add(path)
+    );
+    Object.entries(metadataCache.resolvedLinks).forEach(([path, links]) => {
+      if (links[note.path]) {
+        paths.add(path);
+      }
+    });
+  } else {
+    const linktext = date.format(format);
+    Object.entries(metadataCache.unresolvedLinks).forEach(([path, links]) => {
+      if (links[linktext]) {
+        paths.add(path);
+      }
+    });
+  }
+  paths.delete(note?.path);
+
+  return [...paths]
+    .map((path) => vault.getAbstractFileByPath(path))
+    .filter((file): file is TFile => file instanceof TFile);
+}
+
+async function getSourceSummary(
+  source: IDaySummarySource,
+  date: Moment
+): Promise<IDaySummaryItem[]> {
+  try {
+    if (source.getDailySummary) {
+      return await source.getDailySummary(date);
+    }
+    const metadata = await source.getDailyMetadata?.(date);
+    const tooltip = metadata?.dataAttributes?.["aria-label"] || "";
+    return tooltip
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((text) => ({ text }));
+  } catch (err) {
+    console.error("[Calendar] Failed to summarize the day of a source", err);
+    return [];
+  }
+}
+
+/**
+ * Summarize a day from all registered sources, followed by the notes
+ * linked to it.
+ */
+export async function getDaySummary(date: Moment): Promise<IDaySummary> {
+  const registeredSources: IDaySummarySource[] = get(sources);
+  const items = (
+    await Promise.all(
+      registeredSources.map((source) => getSourceSummary(source, date))
+    )
+  ).flat();
+
+  const note = getPeriodicNote(date, "day", get(dailyNotes));
+  const linkedNotes = getLinkedNotes(date, note);
+  if (linkedNotes.length) {
+    items.push({
+      text: `${linkedNotes.length} linked:`,
+      details: getFileNames(linkedNotes),
+    });
+  }
+  return { date, items };
+}
+
+/**
+ * A popover that summarizes the day under the pointer. Only one is shown
+ * at a time; it closes once the pointer leaves the day.
+ */
+export function createDaySummaryPopover(): {
+  show: (date: Moment, targetEl: HTMLElement) => void;
+  hide: () => void;
+} {
+  let anchorEl: HTMLElement = null;
+  let popoverEl: HTMLElement = null;
+  let component: DaySummary = null;
+  let timeout: number = null;
+  // Invalidates the summaries still being gathered once the popover hides
+  let request = 0;
+
+  const hide = (): void => {
+    window.clearTimeout(timeout);
+    request++;
+    anchorEl?.removeEventListener("pointerleave", hide);
+    component?.$destroy();
+    popoverEl?.remove();
+    anchorEl = popoverEl = component = null;
+  };
+
+  const open = async (date: Moment, el: HTMLElement): Promise<void> => {
+    const openRequest = request;
+    const summary = await getDaySummary(date);
+    if (openRequest !== request) {
+      // The pointer moved on while the summary was being gathered
+      return;
+    }
+
+    popoverEl = document.body.createDiv("popover calendar-day-summary");
+    component = new DaySummary({ target: popoverEl, props: { summary } });
+
+    const rect = el.getBoundingClientRect();
+    const { offsetHeight, offsetWidth } = popoverEl;
+    const fitsBelow = rect.bottom + offsetHeight < window.innerHeight;
+    popoverEl.style.top = `${
+      fitsBelow ? rect.bottom + 4 : rect.top - offsetHeight - 4
+    }px`;
+    popoverEl.style.left = `${Math.max(
+      4,
+      Math.min(rect.left, window.innerWidth - offsetWidth - 4)
+    )}px`;
+  };
+
+  return {
+    show: (date: Moment, targetEl: HTMLElement): void => {
+      // The pointer also moves over the dots and other parts of a day
+      const el = targetEl.closest("td") || targetEl;
+      if (el === anchorEl) {
+        return;
+      }
+      hide();
+      anchorEl = el;
+      anchorEl.addEventListener("pointerleave", hide);
+      timeout = window.setTimeout(() => open(date, el), HOVER_DELAY);
+    },
+    hide,
+  };
+}
@@ -1,7 +1,158 @@
-import { App, Menu, Point, TFile } from "obsidian";
+import type { Moment } from "moment";
+import { App, Menu, Notice, Point, TFile } from "obsidian";
 
-export function showFileMenu(app: App, file: TFile, position: Point): void {
+import { showFilesTouched } from "src/filesTouchedView";
+import { formatNoteName, getPeriodStart, IGranularity } from "src/granularity";
+import {
+  createPeriodicNote,
+  duplicatePeriodicNote,
+  movePeriodicNote,
+  openPeriodicNote,
+} from "src/io/periodicNotes";
+
+import { createDatePromptDialog, TemplateSuggestModal } from "./modal";
+import { activeFile } from "./stores";
+
+function addFilesTouchedItem(
+  menu: Menu,
+  date: Moment,
+  granularity: IGranularity
+): void {
+  if (granularity !== "day") {
+    return;
+  }
+  menu.addItem((item) =>
+    item
+      .setTitle("Show files touched this day")
+      .setIcon("clock")
+      .onClick(() => showFilesTouched(date))
+  );
+}
+
+/**
+ * Create the note of a period, or show a notice when that fails, e.g.
+ * because a file with its name was created in the meantime.
+ */
+async function tryToCreate(
+  date: Moment,
+  granularity: IGranularity,
+  template?: string
+): Promise<TFile | null> {
+  try {
+    return await createPeriodicNote(date, granularity, template);
+  } catch (err) {
+    const filename = formatNoteName(date, granularity);
+    console.error(`[Calendar] Failed to create ${filename}`, err);
+    new Notice(`Unable to create ${filename}: ${err.message}`);
+    return null;
+  }
+}
+
+async function createAndOpen(
+  date: Moment,
+  granularity: IGranularity,
+  template?: string
+): Promise<void> {
+  const note = await tryToCreate(date, granularity, template);
+  if (!note) {
+    return;
+  }
+  await openPeriodicNote(note, false);
+  activeFile.setFile(note);
+}
+
+/**
+ * Menu for a day or week that doesn't have a note yet.
+ */
+export function showEmptyPeriodMenu(
+  app: App,
+  date: Moment,
+  granularity: IGranularity,
+  position: Point
+): void {
+  const menu = new Menu(app);
+  menu.addItem((item) =>
+    item
+      .setTitle("Create note")
+      .setIcon("create-new")
+      .onClick(() => createAndOpen(date, granularity))
+  );
+  menu.addItem((item) =>
+    item
+      .setTitle("Create note from template…")
+      .setIcon("document")
+      .onClick(() => {
+        new TemplateSuggestModal(app, (template) =>
+          createAndOpen(date, granularity, template.path)
+        ).open();
+      })
+  );
+  menu.addItem((item) =>
+    item
+      .setTitle("Create note without opening")
+      .setIcon("plus-with-circle")
+      .onClick(() => tryToCreate(date, granularity))
+  );
+  addFilesTouchedItem(menu, date, granularity);
+  menu.showAtPosition(position);
+}
+
+export function showFileMenu(
+  app: App,
+  file: TFile,
+  date: Moment,
+  granularity: IGranularity,
+  position: Point
+): void {
   const fileMenu = new Menu(app);
+  fileMenu.addItem((item) =>
+    item
+      .setTitle("Open in new split")
+      .setIcon("vertical-split")
+      .onClick(() => openPeriodicNote(file, true))
+  );
+  fileMenu.addItem((item) =>
+    item
+      .setTitle("Copy wiki link")
+      .setIcon("link")
+      .onClick(async () => {
+        const linktext = app.metadataCache.fileToLinktext(file, "");
+        await navigator.clipboard.writeText(`[[${linktext}]]`);
+        new Notice("Link copied to the clipboard");
+      })
+  );
+  fileMenu.addItem((item) =>
+    item
+      .setTitle("Move to another date…")
+      .setIcon("calendar-with-checkmark")
+      .onClick(() => {
+        createDatePromptDialog({
+          cta: "Move",
+          defaultDate: date,
+          onAccept: async (newDate) => {
+            const periodStart = getPeriodStart(newDate, granularity);
+            await movePeriodicNote(file, periodStart, granularity);
+          },
+          title: `Move ${file.basename} to`,
+        });
+      })
+  );
+  fileMenu.addItem((item) =>
+    item
+      .setTitle("Duplicate to date…")
+      .setIcon("documents")
+      .onClick(() => {
+        createDatePromptDialog({
+          cta: "Duplicate",
+          defaultDate: date,
+          onAccept: async (newDate) => {
+            const periodStart = getPeriodStart(newDate, granularity);
+            await duplicatePeriodicNote(file, periodStart, granularity);
+          },
+          title: `Duplicate ${file.basename} to`,
+        });
+      })
+  );
   fileMenu.addItem((item) =>
     item
       .setTitle("Delete")
@@ -11,6 +162,7 @@ export function showFileMenu(app: App, file: TFile, position: Point): void {
         (<any>app).fileManager.promptForFileDeletion(file);
       })
   );
+  addFilesTouchedItem(fileMenu, date, granularity);
 
   app.workspace.trigger(
     "file-menu",
@@ -1,4 +1,12 @@
-import { App, Modal } from "obsidian";
+import type { Moment } from "moment";
+import {
+  App,
+  FuzzySuggestModal,
+  Modal,
+  Notice,
+  TFile,
+  TFolder,
+} from "obsidian";
 
 interface IConfirmationDialogParams {
   cta: string;
@@ -43,3 +51,256 @@ export function createConfirmationDialog({
 }: IConfirmationDialogParams): void {
   new ConfirmationModal(window.app, { cta, onAccept, text, title }).open();
 }
+
+interface IDateInput {
+  label?: string;
+  defaultDate: Moment;
+}
+
+interface IDatePromptContent {
+  cta: string;
+  inputs: IDateInput[];
+  isValid?: (dates: Moment[]) => boolean;
+  onAccept: (dates: Moment[]) => Promise<void>;
+  title: string;
+}
+
+/**
+ * Fill a modal with a date input for each of `inputs`, and accept the
+ * entered dates with the button or Enter once they are all valid.
+ */
+function renderDatePrompt(
+  modal: Modal,
+  { cta, inputs, isValid = () => true, onAccept, title }: IDatePromptContent
+): void {
+  const { contentEl } = modal;
+  contentEl.createEl("h2", { text: title });
+  const inputEls = inputs.map(({ label, defaultDate }) => {
+    const parentEl = label
+      ? contentEl.createEl("label", {
+          cls: "calendar-date-range-input",
+          text: label,
+        })
+      : contentEl;
+    return parentEl.createEl("input", {
+      type: "date",
+      value: defaultDate.format("YYYY-MM-DD"),
+    });
+  });
+
+  const accept = async () => {
+    const dates = inputEls.map((inputEl) =>
+      window.moment(inputEl.value, "YYYY-MM-DD", true)
+    );
+    if (!dates.every((date) => date.isValid()) || !isValid(dates)) {
+      return;
+    }
+    try {
+      await onAccept(dates);
+      modal.close();
+    } catch (err) {
+      console.error("[Calendar] Failed to accept the dates", err);
+      new Notice(err.message);
+    }
+  };
+  inputEls.forEach((inputEl) =>
+    inputEl.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") {
+        accept();
+      }
+    })
+  );
+
+  contentEl.createDiv("modal-button-container", (buttonsEl) => {
+    buttonsEl
+      .createEl("button", { text: "Never mind" })
+      .addEventListener("click", () => modal.close());
+
+    buttonsEl
+      .createEl("button", {
+        cls: "mod-cta",
+        text: cta,
+      })
+      .addEventListener("click", accept);
+  });
+}
+
+interface IDatePromptParams {
+  cta: string;
+  defaultDate: Moment;
+  onAccept: (date: Moment) => Promise<void>;
+  title: string;
+}
+
+export class DatePromptModal extends Modal {
+  constructor(app: App, config: IDatePromptParams) {
+    super(app);
+
+    const { cta, defaultDate, onAccept, title } = config;
+
+    renderDatePrompt(this, {
+      cta,
+      inputs: [{ defaultDate }],
+      onAccept: ([date]) => onAccept(date),
+      title,
+    });
+  }
+}
+
+export function createDatePromptDialog({
+  cta,
+  defaultDate,
+  onAccept,
+  title,
+}: IDatePromptParams): void {
+  new DatePromptModal(window.app, { cta, defaultDate, onAccept, title }).open();
+}
+
+interface IDateRangePromptParams {
+  cta: string;
+  defaultStart: Moment;
+  defaultEnd: Moment;
+  onAccept: (start: Moment, end: Moment) => Promise<void>;
+  title: string;
+}
+
+export class DateRangePromptModal extends Modal {
+  constructor(app: App, config: IDateRangePromptParams) {
+    super(app);
+
+    const { cta, defaultStart, defaultEnd, onAccept, title } = config;
+
+    renderDatePrompt(this, {
+      cta,
+      inputs: [
+        { label: "From", defaultDate: defaultStart },
+        { label: "To", defaultDate: defaultEnd },
+      ],
+      isValid: ([start, end]) => !end.isBefore(start),
+      onAccept: ([start, end]) => onAccept(start, end),
+      title,
+    });
+  }
+}
+
+export function createDateRangePromptDialog(
+  config: IDateRangePromptParams
+): void {
+  new DateRangePromptModal(window.app, config).open();
+}
+
+/**
+ * Pick a note to use as a template. Notes in the folder of the core
+ * Templates plugin are offered, or all notes if it isn't configured.
+ */
+export class TemplateSuggestModal extends FuzzySuggestModal<TFile> {
+  private onChoose: (template: TFile) => void;
+
+  constructor(app: App, onChoose: (template: TFile) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a template");
+  }
+
+  getItems(): TFile[] {
+    const { vault } = this.app;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const templatesPlugin = (<any>this.app).internalPlugins?.getPluginById(
+      "templates"
+    );
+    const folderPath = templatesPlugin?.instance?.options?.folder;
+    const folder = folderPath && vault.getAbstractFileByPath(folderPath);
+
+    const files = vault.getMarkdownFiles();
+    if (!(folder instanceof TFolder)) {
+      return files;
+    }
+    return files.filter((file) => file.path.startsWith(`${folder.path}/`));
+  }
+
+  getItemText(item: TFile): string {
+    return item.path;
+  }
+
+  onChooseItem(item: TFile): void {
+    this.onChoose(item);
+  }
+}
+
+/**
+ * Pick one of the notes of a day: its daily note, which is created if it
+ * doesn't exist yet, or one of the notes dated on that day.
+ */
+export class DayNoteSuggestModal extends FuzzySuggestModal<TFile | null> {
+  private dailyNote: TFile | null;
+  private datedNotes: TFile[];
+  private onChoose: (note: TFile | null) => void;
+
+  constructor(
+    app: App,
+    dailyNote: TFile | null,
+    datedNotes: TFile[],
+    onChoose: (note: TFile | null) => void
+  ) {
+    super(app);
+    this.dailyNote = dailyNote;
+    this.datedNotes = datedNotes;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a note");
+  }
+
+  getItems(): (TFile | null)[] {
+    return [this.dailyNote, ...this.datedNotes];
+  }
+
+  getItemText(item: TFile | null): string {
+    if (!item) {
+      return "Create daily note";
+    }
+    return item === this.dailyNote ? `Daily note: ${item.basename}` : item.path;
+  }
+
+  onChooseItem(item: TFile | null): void {
+    this.onChoose(item);
+  }
+}
+
+/**
+ * Paste settings that were exported from another vault. The modal stays
+ * open with the error if they can't be imported.
+ */
+export class ImportSettingsModal extends Modal {
+  constructor(app: App, onImport: (json: string) => Promise<void>) {
+    super(app);
+
+    this.contentEl.createEl("h2", { text: "Import calendar settings" });
+    this.contentEl.createEl("p", {
+      text:
+        "Paste settings copied with 'Export settings'. They replace all of your current calendar settings.",
+    });
+    const inputEl = this.contentEl.createEl("textarea", {
+      cls: "calendar-settings-import",
+    });
+    const errorEl = this.contentEl.createEl("p", { cls: "mod-warning" });
+
+    this.contentEl.createDiv("modal-button-container", (buttonsEl) => {
+      buttonsEl
+        .createEl("button", { text: "Never mind" })
+        .addEventListener("click", () => this.close());
+
+      buttonsEl
+        .createEl("button", {
+          cls: "mod-cta",
+          text: "Import",
+        })
+        .addEventListener("click", async () => {
+          try {
+            await onImport(inputEl.value);
+            this.close();
+          } catch (err) {
+            errorEl.setText(err.message);
+          }
+        });
+    });
+  }
+}
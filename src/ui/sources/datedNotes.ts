@@ -0,0 +1,36 @@
+import type { Moment } from "moment";
+import type { IDayMetadata, IDot } from "obsidian-calendar-ui";
+import { get } from "svelte/store";
+
+import type { IDaySummaryItem, IDaySummarySource } from "../daySummaryPopover";
+import { datedNotes, getDatedNotesOn } from "../stores";
+import { getFileNames } from "../utils";
+
+const NUM_MAX_DOTS = 3;
+
+export const datedNotesSource: IDaySummarySource = {
+  getDailyMetadata: async (date: Moment): Promise<IDayMetadata> => {
+    const notes = getDatedNotesOn(get(datedNotes), date);
+    const dots: IDot[] = notes.slice(0, NUM_MAX_DOTS).map(() => ({
+      className: "dated-note",
+      color: "default",
+      isFilled: true,
+    }));
+    return {
+      classes: notes.length ? ["has-dated-notes"] : [],
+      dots,
+    };
+  },
+
+  getWeeklyMetadata: async (): Promise<IDayMetadata> => {
+    return { dots: [] };
+  },
+
+  getDailySummary: async (date: Moment): Promise<IDaySummaryItem[]> => {
+    const notes = getDatedNotesOn(get(datedNotes), date);
+    if (!notes.length) {
+      return [];
+    }
+    return [{ text: `${notes.length} dated:`, details: getFileNames(notes) }];
+  },
+};
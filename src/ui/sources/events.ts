@@ -0,0 +1,44 @@
+import type { Moment } from "moment";
+import type { IDayMetadata, IDot } from "obsidian-calendar-ui";
+
+import { formatOccurrence, getEventsOn } from "src/io/ics";
+
+import type { IDaySummaryItem, IDaySummarySource } from "../daySummaryPopover";
+import { getAllCalendarEvents } from "../stores";
+import { classList } from "../utils";
+
+const NUM_MAX_DOTS = 3;
+
+function getEventsMetadata(date: Moment): IDayMetadata {
+  const occurrences = getEventsOn(getAllCalendarEvents(), date);
+  if (!occurrences.length) {
+    return { dots: [] };
+  }
+
+  const dots: IDot[] = occurrences.slice(0, NUM_MAX_DOTS).map(({ event }) => ({
+    className: classList({
+      "calendar-event": true,
+      "is-all-day": event.isAllDay,
+    }).join(" "),
+    color: "default",
+    isFilled: true,
+  }));
+  return { classes: ["has-events"], dots };
+}
+
+export const eventsSource: IDaySummarySource = {
+  getDailyMetadata: async (date: Moment): Promise<IDayMetadata> => {
+    return getEventsMetadata(date);
+  },
+
+  getWeeklyMetadata: async (): Promise<IDayMetadata> => {
+    return { dots: [] };
+  },
+
+  getDailySummary: async (date: Moment): Promise<IDaySummaryItem[]> => {
+    return getEventsOn(getAllCalendarEvents(), date).map((occurrence) => ({
+      text: formatOccurrence(occurrence),
+      cls: "calendar-day-summary-event",
+    }));
+  },
+};
@@ -0,0 +1,66 @@
+import type { Moment } from "moment";
+import type { TFile } from "obsidian";
+import type { IDayMetadata, IDot } from "obsidian-calendar-ui";
+import { get } from "svelte/store";
+
+import { getPeriodicNote, IGranularity } from "src/granularity";
+
+import type { IDaySummaryItem, IDaySummarySource } from "../daySummaryPopover";
+import { filesTouched, getFilesTouchedIn, getNotesStore } from "../stores";
+import { getFileNames } from "../utils";
+
+function getFilesTouched(
+  date: Moment,
+  granularity: IGranularity
+): { created: TFile[]; modified: TFile[] } {
+  const { created, modified } = getFilesTouchedIn(
+    get(filesTouched),
+    date,
+    granularity
+  );
+  // The period's own note doesn't count
+  const notes = get(getNotesStore(granularity));
+  const note = getPeriodicNote(date, granularity, notes);
+  return {
+    created: created.filter((file) => file !== note),
+    modified: modified.filter((file) => file !== note),
+  };
+}
+
+function getDotsForFilesTouched(
+  date: Moment,
+  granularity: IGranularity
+): IDot[] {
+  const { created, modified } = getFilesTouched(date, granularity);
+  if (!created.length && !modified.length) {
+    return [];
+  }
+  return [{ className: "files-touched", color: "default", isFilled: false }];
+}
+
+export const filesTouchedSource: IDaySummarySource = {
+  getDailyMetadata: async (date: Moment): Promise<IDayMetadata> => {
+    return {
+      dots: getDotsForFilesTouched(date, "day"),
+    };
+  },
+
+  getWeeklyMetadata: async (date: Moment): Promise<IDayMetadata> => {
+    return {
+      dots: getDotsForFilesTouched(date, "week"),
+    };
+  },
+
+  getDailySummary: async (date: Moment): Promise<IDaySummaryItem[]> => {
+    const { created, modified } = getFilesTouched(date, "day");
+    if (!created.length && !modified.length) {
+      return [];
+    }
+    return [
+      {
+        text: `${created.length} created, ${modified.length} modified:`,
+        details: getFileNames([...created, ...modified]),
+      },
+    ];
+  },
+};
@@ -1,4 +1,10 @@
-export { streakSource } from "./streak";
+export { datedNotesSource } from "./datedNotes";
+export { eventsSource } from "./events";
+export { filesTouchedSource } from "./filesTouched";
+export { getPropertyRuleStyles, propertyRulesSource } from "./properties";
+export { specialDatesSource } from "./specialDates";
+export { formatStreakStats, getStreakStats, streakSource } from "./streak";
 export { customTagsSource } from "./tags";
 export { tasksSource } from "./tasks";
+export { tooltipSource } from "./tooltip";
 export { wordCountSource } from "./wordCount";
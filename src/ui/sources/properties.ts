@@ -0,0 +1,145 @@
+import type { Moment } from "moment";
+import type { TFile } from "obsidian";
+import type { ICalendarSource, IDayMetadata, IDot } from "obsidian-calendar-ui";
+import { get } from "svelte/store";
+
+import { getPeriodicNote } from "src/granularity";
+import type { IPropertyRule } from "src/settings";
+
+import { dailyNotes, settings, weeklyNotes } from "../stores";
+
+/**
+ * Each rule is styled through a class of its own, so that arbitrary
+ * colors can be applied to both days and dots.
+ */
+function getRuleClass(index: number): string {
+  return `property-rule-${index}`;
+}
+
+function isNumeric(value: unknown): boolean {
+  return (
+    (typeof value === "number" || typeof value === "string") &&
+    String(value).trim() !== "" &&
+    !isNaN(Number(value))
+  );
+}
+
+function matchesValue(actual: unknown, rule: IPropertyRule): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some((item) => matchesValue(item, rule));
+  }
+
+  const actualText = String(actual).toLowerCase();
+  const expectedText = rule.value.trim().toLowerCase();
+  switch (rule.comparison) {
+    case "is":
+      return actualText === expectedText;
+    case "contains":
+      return actualText.includes(expectedText);
+    case "greater-than":
+      return (
+        isNumeric(actual) &&
+        isNumeric(rule.value) &&
+        Number(actual) > Number(rule.value)
+      );
+    case "less-than":
+      return (
+        isNumeric(actual) &&
+        isNumeric(rule.value) &&
+        Number(actual) < Number(rule.value)
+      );
+    default:
+      return false;
+  }
+}
+
+function matchesRule(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  frontmatter: Record<string, any>,
+  rule: IPropertyRule
+): boolean {
+  const actual = frontmatter?.[rule.property.trim()];
+  const exists = actual !== undefined && actual !== null;
+
+  switch (rule.comparison) {
+    case "exists":
+      return exists;
+    case "is-not":
+      return !exists || !matchesValue(actual, { ...rule, comparison: "is" });
+    default:
+      return exists && matchesValue(actual, rule);
+  }
+}
+
+function getPropertyRulesMetadata(note: TFile | null): IDayMetadata {
+  const classes: string[] = [];
+  const dots: IDot[] = [];
+  if (!note) {
+    return { classes, dots };
+  }
+
+  const { metadataCache } = window.app;
+  const frontmatter = metadataCache.getFileCache(note)?.frontmatter;
+  if (!frontmatter) {
+    return { classes, dots };
+  }
+
+  const { propertyRules = [] } = get(settings);
+  propertyRules.forEach((rule, index) => {
+    if (!rule.property.trim() || !matchesRule(frontmatter, rule)) {
+      return;
+    }
+    switch (rule.action) {
+      case "color":
+        classes.push("has-property-color", getRuleClass(index));
+        break;
+      case "dot":
+        dots.push({
+          className: getRuleClass(index),
+          color: rule.color,
+          isFilled: true,
+        });
+        break;
+      case "class":
+        classes.push(...rule.className.split(/\s+/).filter(Boolean));
+        break;
+    }
+  });
+  return { classes, dots };
+}
+
+/**
+ * Build the stylesheet that paints days and dots in the colors of the
+ * rules that match them.
+ */
+export function getPropertyRuleStyles(rules: IPropertyRule[]): string {
+  return rules
+    .map((rule, index) => {
+      // Keep the user's color from breaking out of the declaration
+      const color = rule.color.replace(/[;{}<>]/g, "");
+      if (!color) {
+        return "";
+      }
+      const ruleClass = getRuleClass(index);
+      if (rule.action === "color") {
+        return `.has-property-color.${ruleClass}:not(.active) { background-color: ${color}; }`;
+      }
+      if (rule.action === "dot") {
+        return `.dot.${ruleClass}:not(.active) { fill: ${color}; }`;
+      }
+      return "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+export const propertyRulesSource: ICalendarSource = {
+  getDailyMetadata: async (date: Moment): Promise<IDayMetadata> => {
+    const file = getPeriodicNote(date, "day", get(dailyNotes));
+    return getPropertyRulesMetadata(file);
+  },
+  getWeeklyMetadata: async (date: Moment): Promise<IDayMetadata> => {
+    const file = getPeriodicNote(date, "week", get(weeklyNotes));
+    return getPropertyRulesMetadata(file);
+  },
+};
@@ -0,0 +1,43 @@
+import type { Moment } from "moment";
+import type { IDayMetadata } from "obsidian-calendar-ui";
+import { get } from "svelte/store";
+
+import { formatSpecialDate, getSpecialDatesOn } from "src/io/specialDates";
+
+import type { IDaySummaryItem, IDaySummarySource } from "../daySummaryPopover";
+import { specialDates } from "../stores";
+
+// The type is user-defined, so keep it to characters valid in a class
+function getTypeClass(type: string): string {
+  return `special-date-${type.toLowerCase().replace(/[^a-z0-9_-]+/g, "-")}`;
+}
+
+export const specialDatesSource: IDaySummarySource = {
+  getDailyMetadata: async (date: Moment): Promise<IDayMetadata> => {
+    const dates = getSpecialDatesOn(get(specialDates), date);
+    if (!dates.length) {
+      return { dots: [] };
+    }
+    const typeClasses = dates.map(({ type }) => getTypeClass(type));
+    return {
+      classes: ["has-special-date", ...new Set(typeClasses)],
+      dots: [],
+    };
+  },
+
+  getWeeklyMetadata: async (): Promise<IDayMetadata> => {
+    return { dots: [] };
+  },
+
+  getDailySummary: async (date: Moment): Promise<IDaySummaryItem[]> => {
+    const names = getSpecialDatesOn(get(specialDates), date).map(
+      (specialDate) => formatSpecialDate(specialDate, date)
+    );
+    if (!names.length) {
+      return [];
+    }
+    return [
+      { text: names.join(", "), cls: "calendar-day-summary-special-dates" },
+    ];
+  },
+};
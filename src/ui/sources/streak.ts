@@ -1,11 +1,111 @@
 import type { Moment } from "moment";
-import type { TFile } from "obsidian";
+import { getAllTags, TFile } from "obsidian";
 import type { ICalendarSource, IDayMetadata } from "obsidian-calendar-ui";
-import { getDailyNote, getWeeklyNote } from "obsidian-daily-notes-interface";
 import { get } from "svelte/store";
 
+import { getDateFromFile, getPeriodicNote } from "src/granularity";
+import type { ISettings } from "src/settings";
+
 import { dailyNotes, weeklyNotes } from "../stores";
-import { classList } from "../utils";
+import { classList, getWordCount } from "../utils";
+
+export interface IStreakStats {
+  // Days in a row up to today, or up to yesterday while today is still open
+  current: number;
+  longest: number;
+  total: number;
+}
+
+type IStreakSettings = Pick<ISettings, "streakMinWords" | "streakRequiredTag">;
+
+// Word counts of daily notes by path, read again once a note is modified
+const wordCounts = new Map<string, { mtime: number; wordCount: number }>();
+
+async function getCachedWordCount(note: TFile): Promise<number> {
+  const cached = wordCounts.get(note.path);
+  if (cached?.mtime === note.stat.mtime) {
+    return cached.wordCount;
+  }
+  const wordCount = getWordCount(await window.app.vault.cachedRead(note));
+  wordCounts.set(note.path, { mtime: note.stat.mtime, wordCount });
+  return wordCount;
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+/**
+ * Whether a daily note satisfies the streak rule from the settings. With
+ * the default settings, every daily note counts.
+ */
+async function countsTowardsStreak(
+  note: TFile,
+  { streakMinWords, streakRequiredTag }: IStreakSettings
+): Promise<boolean> {
+  const requiredTag = normalizeTag(streakRequiredTag || "");
+  if (requiredTag) {
+    const cache = window.app.metadataCache.getFileCache(note);
+    const tags = (cache ? getAllTags(cache) : []) || [];
+    if (!tags.some((tag) => normalizeTag(tag) === requiredTag)) {
+      return false;
+    }
+  }
+  if (streakMinWords > 0) {
+    return (await getCachedWordCount(note)) >= streakMinWords;
+  }
+  return true;
+}
+
+export async function getStreakStats(
+  notes: Record<string, TFile>,
+  settings: IStreakSettings,
+  today: Moment
+): Promise<IStreakStats> {
+  const days = new Set<string>();
+  // The notes are null until they're indexed, once the layout is ready
+  await Promise.all(
+    Object.values(notes ?? {}).map(async (note) => {
+      const date = getDateFromFile(note, "day");
+      if (date && (await countsTowardsStreak(note, settings))) {
+        days.add(date.format("YYYY-MM-DD"));
+      }
+    })
+  );
+
+  let longest = 0;
+  let run = 0;
+  let previous: Moment = null;
+  [...days].sort().forEach((day) => {
+    const date = window.moment(day, "YYYY-MM-DD");
+    run = previous && date.diff(previous, "days") === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  });
+
+  let current = 0;
+  const date = today.clone();
+  if (!days.has(date.format("YYYY-MM-DD"))) {
+    date.subtract(1, "day");
+  }
+  while (days.has(date.format("YYYY-MM-DD"))) {
+    current++;
+    date.subtract(1, "day");
+  }
+
+  return { current, longest, total: days.size };
+}
+
+export function formatStreakStats({
+  current,
+  longest,
+  total,
+}: IStreakStats): string {
+  const days = (n: number) => `${n} ${n === 1 ? "day" : "days"}`;
+  return `Current streak: ${days(current)} · Longest: ${days(
+    longest
+  )} · Total: ${days(total)}`;
+}
 
 const getStreakClasses = (file: TFile): string[] => {
   return classList({
@@ -15,7 +115,7 @@ const getStreakClasses = (file: TFile): string[] => {
 
 export const streakSource: ICalendarSource = {
   getDailyMetadata: async (date: Moment): Promise<IDayMetadata> => {
-    const file = getDailyNote(date, get(dailyNotes));
+    const file = getPeriodicNote(date, "day", get(dailyNotes));
     return {
       classes: getStreakClasses(file),
       dots: [],
@@ -23,7 +123,7 @@ export const streakSource: ICalendarSource = {
   },
 
   getWeeklyMetadata: async (date: Moment): Promise<IDayMetadata> => {
-    const file = getWeeklyNote(date, get(weeklyNotes));
+    const file = getPeriodicNote(date, "week", get(weeklyNotes));
     return {
       classes: getStreakClasses(file),
       dots: [],
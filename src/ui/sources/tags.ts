@@ -1,11 +1,12 @@
 import type { Moment } from "moment";
-import { parseFrontMatterTags, TFile } from "obsidian";
-import type { ICalendarSource, IDayMetadata } from "obsidian-calendar-ui";
-import { getDailyNote, getWeeklyNote } from "obsidian-daily-notes-interface";
+import { getAllTags, parseFrontMatterTags, TFile } from "obsidian";
+import type { IDayMetadata } from "obsidian-calendar-ui";
 import { get } from "svelte/store";
 
+import { getPeriodicNote } from "src/granularity";
 import { partition } from "src/ui/utils";
 
+import type { IDaySummaryItem, IDaySummarySource } from "../daySummaryPopover";
 import { dailyNotes, weeklyNotes } from "../stores";
 
 function getNoteTags(note: TFile | null): string[] {
@@ -47,19 +48,28 @@ function getFormattedTagAttributes(note: TFile | null): Record<string, string> {
   return attrs;
 }
 
-export const customTagsSource: ICalendarSource = {
+export const customTagsSource: IDaySummarySource = {
   getDailyMetadata: async (date: Moment): Promise<IDayMetadata> => {
-    const file = getDailyNote(date, get(dailyNotes));
+    const file = getPeriodicNote(date, "day", get(dailyNotes));
     return {
       dataAttributes: getFormattedTagAttributes(file),
       dots: [],
     };
   },
   getWeeklyMetadata: async (date: Moment): Promise<IDayMetadata> => {
-    const file = getWeeklyNote(date, get(weeklyNotes));
+    const file = getPeriodicNote(date, "week", get(weeklyNotes));
     return {
       dataAttributes: getFormattedTagAttributes(file),
       dots: [],
     };
   },
+  getDailySummary: async (date: Moment): Promise<IDaySummaryItem[]> => {
+    const file = getPeriodicNote(date, "day", get(dailyNotes));
+    const cache = file ? window.app.metadataCache.getFileCache(file) : null;
+    // Unlike the tag attributes, this includes the tags in the text
+    const tags = [...new Set(cache ? getAllTags(cache) : [])];
+    return tags.length
+      ? [{ text: tags.join(" "), cls: "calendar-day-summary-tags" }]
+      : [];
+  },
 };
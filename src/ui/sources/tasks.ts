@@ -1,55 +1,113 @@
 import type { Moment } from "moment";
 import type { TFile } from "obsidian";
-import type { ICalendarSource, IDayMetadata, IDot } from "obsidian-calendar-ui";
-import { getDailyNote, getWeeklyNote } from "obsidian-daily-notes-interface";
+import type { IDayMetadata, IDot } from "obsidian-calendar-ui";
 import { get } from "svelte/store";
 
-import { dailyNotes, weeklyNotes } from "../stores";
+import {
+  getPeriodEnd,
+  getPeriodicNote,
+  getPeriodStart,
+  IGranularity,
+} from "src/granularity";
+import { getTasks, isOverdue, ITask } from "src/io/tasks";
+
+import type { IDaySummaryItem, IDaySummarySource } from "../daySummaryPopover";
+import { dailyNotes, dueTasks, weeklyNotes } from "../stores";
+import { classList } from "../utils";
 
 export async function getNumberOfRemainingTasks(note: TFile): Promise<number> {
-  if (!note) {
-    return 0;
-  }
+  const tasks = await getTasks(note);
+  return tasks.filter((task) => !task.isCompleted).length;
+}
 
-  const { vault } = window.app;
-  const fileContents = await vault.cachedRead(note);
-  return (fileContents.match(/(-|\*) \[ \]/g) || []).length;
+/**
+ * Round the share of completed tasks down to a quarter, so it can be
+ * styled with a fixed set of classes.
+ */
+function getProgressClass(tasks: ITask[]): string {
+  const completed = tasks.filter((task) => task.isCompleted).length;
+  const progress = Math.floor((completed / tasks.length) * 4) * 25;
+  return `tasks-progress-${progress}`;
 }
 
-export async function getDotsForDailyNote(
-  dailyNote: TFile | null
-): Promise<IDot[]> {
-  if (!dailyNote) {
-    return [];
-  }
-  const numTasks = await getNumberOfRemainingTasks(dailyNote);
+export function getTasksDueIn(
+  date: Moment,
+  granularity: IGranularity
+): ITask[] {
+  const start = getPeriodStart(date, granularity).format("YYYY-MM-DD");
+  const end = getPeriodEnd(date, granularity).format("YYYY-MM-DD");
+  return Object.values(get(dueTasks))
+    .flat()
+    .filter((task) => task.dueDate >= start && task.dueDate <= end);
+}
+
+async function getTasksMetadata(
+  file: TFile | null,
+  date: Moment,
+  granularity: IGranularity
+): Promise<IDayMetadata> {
+  const tasks = await getTasks(file);
+  const openDueTasks = getTasksDueIn(date, granularity).filter(
+    (task) => !task.isCompleted
+  );
+  const hasOverdueTasks = openDueTasks.some((task) =>
+    isOverdue(task, window.moment())
+  );
 
-  const dots = [];
-  if (numTasks) {
+  const dots: IDot[] = [];
+  if (tasks.some((task) => !task.isCompleted)) {
+    dots.push({ className: "task", color: "default", isFilled: false });
+  }
+  if (openDueTasks.length) {
     dots.push({
-      className: "task",
+      className: hasOverdueTasks ? "task-due is-overdue" : "task-due",
       color: "default",
-      isFilled: false,
+      isFilled: true,
     });
   }
-  return dots;
+
+  const classes = classList({
+    "has-tasks": tasks.length > 0,
+    "has-due-tasks": openDueTasks.length > 0,
+    "has-overdue-tasks": hasOverdueTasks,
+  });
+  if (tasks.length) {
+    classes.push(getProgressClass(tasks));
+  }
+  return { classes, dots };
 }
 
-export const tasksSource: ICalendarSource = {
+async function getTasksSummary(
+  file: TFile | null,
+  date: Moment
+): Promise<IDaySummaryItem[]> {
+  const tasks = await getTasks(file);
+  const completed = tasks.filter((task) => task.isCompleted).length;
+  const due = getTasksDueIn(date, "day").length;
+
+  const items: IDaySummaryItem[] = [];
+  if (tasks.length) {
+    items.push({ text: `${completed}/${tasks.length} tasks done` });
+  }
+  if (due) {
+    items.push({ text: `${due} ${due === 1 ? "task" : "tasks"} due` });
+  }
+  return items;
+}
+
+export const tasksSource: IDaySummarySource = {
   getDailyMetadata: async (date: Moment): Promise<IDayMetadata> => {
-    const file = getDailyNote(date, get(dailyNotes));
-    const dots = await getDotsForDailyNote(file);
-    return {
-      dots,
-    };
+    const file = getPeriodicNote(date, "day", get(dailyNotes));
+    return getTasksMetadata(file, date, "day");
   },
 
   getWeeklyMetadata: async (date: Moment): Promise<IDayMetadata> => {
-    const file = getWeeklyNote(date, get(weeklyNotes));
-    const dots = await getDotsForDailyNote(file);
+    const file = getPeriodicNote(date, "week", get(weeklyNotes));
+    return getTasksMetadata(file, date, "week");
+  },
 
-    return {
-      dots,
-    };
+  getDailySummary: async (date: Moment): Promise<IDaySummaryItem[]> => {
+    const file = getPeriodicNote(date, "day", get(dailyNotes));
+    return getTasksSummary(file, date);
   },
 };
@@ -0,0 +1,46 @@
+import type { Moment } from "moment";
+import type { ICalendarSource, IDayMetadata } from "obsidian-calendar-ui";
+import { get } from "svelte/store";
+
+import { formatOccurrence, getEventsOn } from "src/io/ics";
+import { formatSpecialDate, getSpecialDatesOn } from "src/io/specialDates";
+
+import {
+  datedNotes,
+  getAllCalendarEvents,
+  getDatedNotesOn,
+  settings,
+  specialDates,
+} from "../stores";
+
+/**
+ * List a day's special dates, events and dated notes in its tooltip. The
+ * lines are gathered in one place since a day can only have one tooltip.
+ */
+function getTooltip(date: Moment): string {
+  const names = getSpecialDatesOn(get(specialDates), date).map(
+    (specialDate) => formatSpecialDate(specialDate, date)
+  );
+  const events = getEventsOn(getAllCalendarEvents(), date).map(
+    formatOccurrence
+  );
+  const notes = getDatedNotesOn(get(datedNotes), date).map(
+    (note) => note.basename
+  );
+  return [...names, ...events, ...notes].join("\n");
+}
+
+export const tooltipSource: ICalendarSource = {
+  getDailyMetadata: async (date: Moment): Promise<IDayMetadata> => {
+    // The day summary lists all of it already
+    const tooltip = get(settings).showDaySummary ? "" : getTooltip(date);
+    return {
+      dataAttributes: tooltip ? { "aria-label": tooltip } : {},
+      dots: [],
+    };
+  },
+
+  getWeeklyMetadata: async (): Promise<IDayMetadata> => {
+    return { dots: [] };
+  },
+};
@@ -1,11 +1,12 @@
 import type { Moment } from "moment";
 import type { TFile } from "obsidian";
-import type { ICalendarSource, IDayMetadata, IDot } from "obsidian-calendar-ui";
-import { getDailyNote, getWeeklyNote } from "obsidian-daily-notes-interface";
+import type { IDayMetadata, IDot } from "obsidian-calendar-ui";
 import { get } from "svelte/store";
 
 import { DEFAULT_WORDS_PER_DOT } from "src/constants";
+import { getPeriodicNote } from "src/granularity";
 
+import type { IDaySummaryItem, IDaySummarySource } from "../daySummaryPopover";
 import { dailyNotes, settings, weeklyNotes } from "../stores";
 import { clamp, getWordCount } from "../utils";
 
@@ -41,9 +42,19 @@ export async function getDotsForDailyNote(
   return dots;
 }
 
-export const wordCountSource: ICalendarSource = {
+async function getWordCountSummary(
+  dailyNote: TFile | null
+): Promise<IDaySummaryItem[]> {
+  if (!dailyNote) {
+    return [{ text: "No daily note", cls: "calendar-day-summary-muted" }];
+  }
+  const fileContents = await window.app.vault.cachedRead(dailyNote);
+  return [{ text: `${getWordCount(fileContents)} words` }];
+}
+
+export const wordCountSource: IDaySummarySource = {
   getDailyMetadata: async (date: Moment): Promise<IDayMetadata> => {
-    const file = getDailyNote(date, get(dailyNotes));
+    const file = getPeriodicNote(date, "day", get(dailyNotes));
     const dots = await getDotsForDailyNote(file);
     return {
       dots,
@@ -51,11 +62,16 @@ export const wordCountSource: ICalendarSource = {
   },
 
   getWeeklyMetadata: async (date: Moment): Promise<IDayMetadata> => {
-    const file = getWeeklyNote(date, get(weeklyNotes));
+    const file = getPeriodicNote(date, "week", get(weeklyNotes));
     const dots = await getDotsForDailyNote(file);
 
     return {
       dots,
     };
   },
+
+  getDailySummary: async (date: Moment): Promise<IDaySummaryItem[]> => {
+    const file = getPeriodicNote(date, "day", get(dailyNotes));
+    return getWordCountSummary(file);
+  },
 };
@@ -1,294 +1,567 @@
-import type { TFile } from "obsidian";
-import { normalizePath, Vault, TFile as ObsidianTFile } from "obsidian";
+import type { Moment } from "moment";
 import {
-  getAllDailyNotes,
-  getAllWeeklyNotes,
-  getAllMonthlyNotes,
-} from "obsidian-daily-notes-interface";
-import { writable } from "svelte/store";
+  normalizePath,
+  TAbstractFile,
+  TFile,
+  TFolder,
+  Vault,
+} from "obsidian";
+import type { ICalendarSource } from "obsidian-calendar-ui";
+import { get, writable } from "svelte/store";
 
-import { defaultSettings, ISettings } from "src/settings";
+import {
+  getAllPeriodicNotes,
+  getDateFromFile,
+  getDateUID,
+  getGranularities,
+  getGranularityConfig,
+  getPeriodEnd,
+  getPeriodStart,
+  IGranularity,
+  isInNotesFolder,
+} from "src/granularity";
+import { getEvents, ICalendarEvent } from "src/io/ics";
+import { getSpecialDates, ISpecialDate } from "src/io/specialDates";
+import { getTasks, ITask } from "src/io/tasks";
+import { settings } from "src/settingsStore";
 
 import { getDateUIDFromFile } from "./utils";
 
-const DEFAULT_QUARTERLY_NOTE_FORMAT = "YYYY-[Q]Q";
-const DEFAULT_YEARLY_NOTE_FORMAT = "YYYY";
+export { settings };
 
-/**
- * Get quarterly note settings from periodic-notes plugin
- */
-function getQuarterlyNoteSettings() {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const pluginManager = (window.app as any).plugins;
-  try {
-    const periodicNotes = pluginManager.getPlugin("periodic-notes");
-    const settings = periodicNotes?.settings?.quarterly || {};
-    return {
-      format: settings.format || DEFAULT_QUARTERLY_NOTE_FORMAT,
-      folder: settings.folder?.trim() || "",
-    };
-  } catch (err) {
-    return { format: DEFAULT_QUARTERLY_NOTE_FORMAT, folder: "" };
+function getFilesIn(file: TAbstractFile): TFile[] {
+  const files: TFile[] = [];
+  if (file instanceof TFolder) {
+    Vault.recurseChildren(file, (child) => {
+      if (child instanceof TFile) {
+        files.push(child);
+      }
+    });
+  } else if (file instanceof TFile) {
+    files.push(file);
   }
+  return files;
+}
+
+function createPeriodicNotesStore(granularity: IGranularity) {
+  let hasError = false;
+  // Empty until the notes are indexed, once the layout is ready
+  const store = writable<Record<string, TFile>>({});
+
+  /**
+   * Drop every note matching `predicate`. Returns whether any was dropped.
+   */
+  const removeWhere = (predicate: (note: TFile) => boolean): boolean => {
+    const remaining = { ...get(store) };
+    const uids = Object.keys(remaining).filter((uid) =>
+      predicate(remaining[uid])
+    );
+    if (!uids.length) {
+      return false;
+    }
+    uids.forEach((uid) => delete remaining[uid]);
+    store.set(remaining);
+    return true;
+  };
+
+  /**
+   * Index the file, or all files of a folder. Returns whether any
+   * of them is a periodic note.
+   */
+  const add = (file: TAbstractFile): boolean => {
+    const added: Record<string, TFile> = {};
+    getFilesIn(file).forEach((note) => {
+      const date = getDateFromFile(note, granularity);
+      if (date && isInNotesFolder(note, granularity)) {
+        added[getDateUID(date, granularity)] = note;
+      }
+    });
+    if (!Object.keys(added).length) {
+      return false;
+    }
+    store.update((notes) => ({ ...notes, ...added }));
+    return true;
+  };
+
+  return {
+    add,
+    /**
+     * Remove the note at `path`, or all notes below it if it was a folder.
+     */
+    remove: (path: string): boolean =>
+      removeWhere(
+        (note) => note.path === path || note.path.startsWith(`${path}/`)
+      ),
+    rename: (file: TAbstractFile, oldPath: string): boolean => {
+      const files = getFilesIn(file);
+      const didRemove = removeWhere(
+        (note) => files.includes(note) || note.path === oldPath
+      );
+      const didAdd = add(file);
+      return didRemove || didAdd;
+    },
+    reindex: () => {
+      try {
+        const notes = getAllPeriodicNotes(granularity);
+        store.set(notes);
+        hasError = false;
+      } catch (err) {
+        if (!hasError) {
+          // Avoid error being shown multiple times
+          const { periodicity } = getGranularityConfig(granularity);
+          console.log(
+            `[Calendar] Failed to find ${periodicity} notes folder`,
+            err
+          );
+        }
+        store.set({});
+        hasError = true;
+      }
+    },
+    ...store,
+  };
 }
 
+export type IPeriodicNotesStore = ReturnType<typeof createPeriodicNotesStore>;
+
+const notesStores = new Map<IGranularity, IPeriodicNotesStore>();
+
 /**
- * Get yearly note settings from periodic-notes plugin
+ * The store of dateUID → note for a granularity, created on first use.
  */
-function getYearlyNoteSettings() {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const pluginManager = (window.app as any).plugins;
-  try {
-    const periodicNotes = pluginManager.getPlugin("periodic-notes");
-    const settings = periodicNotes?.settings?.yearly || {};
-    return {
-      format: settings.format || DEFAULT_YEARLY_NOTE_FORMAT,
-      folder: settings.folder?.trim() || "",
-    };
-  } catch (err) {
-    return { format: DEFAULT_YEARLY_NOTE_FORMAT, folder: "" };
+export function getNotesStore(granularity: IGranularity): IPeriodicNotesStore {
+  if (!notesStores.has(granularity)) {
+    notesStores.set(granularity, createPeriodicNotesStore(granularity));
   }
+  return notesStores.get(granularity);
+}
+
+export function reindexAllNotes(): void {
+  getGranularities().forEach((granularity) =>
+    getNotesStore(granularity).reindex()
+  );
 }
 
 /**
- * Get date UID for quarterly notes
- * Format: quarter-YYYY-Q (e.g., "quarter-2026-1")
+ * Keep every notes store in sync with a change in the vault, without
+ * rescanning any folders. Each returns whether a store changed.
  */
-function getQuarterlyDateUID(date: moment.Moment): string {
-  const year = date.year();
-  const quarter = date.quarter();
-  return `quarter-${year}-${quarter}`;
-}
+export const notesIndex = {
+  onCreate: (file: TAbstractFile): boolean =>
+    getGranularities()
+      .map((granularity) => getNotesStore(granularity).add(file))
+      .includes(true),
+  onDelete: (file: TAbstractFile): boolean =>
+    getGranularities()
+      .map((granularity) => getNotesStore(granularity).remove(file.path))
+      .includes(true),
+  onRename: (file: TAbstractFile, oldPath: string): boolean =>
+    getGranularities()
+      .map((granularity) => getNotesStore(granularity).rename(file, oldPath))
+      .includes(true),
+};
+
+export const dailyNotes = getNotesStore("day");
+export const weeklyNotes = getNotesStore("week");
+export const monthlyNotes = getNotesStore("month");
+export const quarterlyNotes = getNotesStore("quarter");
+export const yearlyNotes = getNotesStore("year");
 
 /**
- * Get date UID for yearly notes
- * Format: year-YYYY (e.g., "year-2026")
+ * Tasks with a due or scheduled date, from anywhere in the vault, keyed by
+ * the path of the file that contains them.
  */
-function getYearlyDateUID(date: moment.Moment): string {
-  const year = date.year();
-  return `year-${year}`;
+function createDueTasksStore() {
+  let hasError = false;
+  const store = writable<Record<string, ITask[]>>({});
+
+  /**
+   * The tasks of `file` that have a date. Only files with tasks in their
+   * metadata cache are read, unless they haven't been cached yet.
+   */
+  const getDueTasks = async (file: TFile): Promise<ITask[]> => {
+    const cache = window.app.metadataCache.getFileCache(file);
+    if (cache && !cache.listItems?.some((item) => item.task !== undefined)) {
+      return [];
+    }
+    try {
+      return (await getTasks(file)).filter((task) => task.dueDate);
+    } catch (err) {
+      if (!hasError) {
+        // Avoid error being shown multiple times
+        console.log(`[Calendar] Failed to read tasks from ${file.path}`, err);
+      }
+      hasError = true;
+      return [];
+    }
+  };
+
+  const removeWhere = (predicate: (path: string) => boolean): void => {
+    const paths = Object.keys(get(store)).filter(predicate);
+    if (!paths.length) {
+      return;
+    }
+    store.update((tasks) => {
+      const remaining = { ...tasks };
+      paths.forEach((path) => delete remaining[path]);
+      return remaining;
+    });
+  };
+
+  const indexFile = async (file: TFile): Promise<void> => {
+    if (file.extension !== "md") {
+      return;
+    }
+    const tasks = await getDueTasks(file);
+    if (tasks.length) {
+      store.update((allTasks) => ({ ...allTasks, [file.path]: tasks }));
+    } else {
+      removeWhere((path) => path === file.path);
+    }
+  };
+
+  return {
+    indexFile,
+    /**
+     * Forget the tasks of the file at `path`, or of all files below it if
+     * it was a folder.
+     */
+    remove: (path: string): void =>
+      removeWhere((p) => p === path || p.startsWith(`${path}/`)),
+    rename: async (file: TAbstractFile, oldPath: string): Promise<void> => {
+      removeWhere((p) => p === oldPath || p.startsWith(`${oldPath}/`));
+      await Promise.all(getFilesIn(file).map(indexFile));
+    },
+    reindex: async (): Promise<void> => {
+      const allTasks: Record<string, ITask[]> = {};
+      const files = window.app.vault.getMarkdownFiles();
+      await Promise.all(
+        files.map(async (file) => {
+          const tasks = await getDueTasks(file);
+          if (tasks.length) {
+            allTasks[file.path] = tasks;
+          }
+        })
+      );
+      store.set(allTasks);
+    },
+    subscribe: store.subscribe,
+  };
 }
 
+export const dueTasks = createDueTasksStore();
+
 /**
- * Get date from file for quarterly notes
+ * The events of every iCalendar (.ics) file in the vault, keyed by the
+ * path of the file.
  */
-function getDateFromQuarterlyFile(file: TFile): moment.Moment | null {
-  const { format } = getQuarterlyNoteSettings();
-  // Get just the filename format (in case folder structure is part of format)
-  const filenameFormat = format.split("/").pop() || format;
-  const noteDate = window.moment(file.basename, filenameFormat, true);
-  if (!noteDate.isValid()) {
-    return null;
-  }
-  return noteDate;
+function createCalendarEventsStore() {
+  const store = writable<Record<string, ICalendarEvent[]>>({});
+
+  const removeWhere = (predicate: (path: string) => boolean): void => {
+    const paths = Object.keys(get(store)).filter(predicate);
+    if (!paths.length) {
+      return;
+    }
+    store.update((events) => {
+      const remaining = { ...events };
+      paths.forEach((path) => delete remaining[path]);
+      return remaining;
+    });
+  };
+
+  const indexFile = async (file: TFile): Promise<void> => {
+    if (file.extension !== "ics") {
+      return;
+    }
+    const events = await getEvents(file);
+    store.update((allEvents) => ({ ...allEvents, [file.path]: events }));
+  };
+
+  return {
+    indexFile,
+    /**
+     * Forget the events of the file at `path`, or of all files below it if
+     * it was a folder.
+     */
+    remove: (path: string): void =>
+      removeWhere((p) => p === path || p.startsWith(`${path}/`)),
+    rename: async (file: TAbstractFile, oldPath: string): Promise<void> => {
+      removeWhere((p) => p === oldPath || p.startsWith(`${oldPath}/`));
+      await Promise.all(getFilesIn(file).map(indexFile));
+    },
+    reindex: async (): Promise<void> => {
+      const allEvents: Record<string, ICalendarEvent[]> = {};
+      const files = window.app.vault
+        .getFiles()
+        .filter((file) => file.extension === "ics");
+      await Promise.all(
+        files.map(async (file) => {
+          allEvents[file.path] = await getEvents(file);
+        })
+      );
+      store.set(allEvents);
+    },
+    subscribe: store.subscribe,
+  };
 }
 
+export const calendarEvents = createCalendarEventsStore();
+
 /**
- * Get date from file for yearly notes
+ * The events from all .ics files as a single list.
  */
-function getDateFromYearlyFile(file: TFile): moment.Moment | null {
-  const { format } = getYearlyNoteSettings();
-  // Get just the filename format (in case folder structure is part of format)
-  const filenameFormat = format.split("/").pop() || format;
-  const noteDate = window.moment(file.basename, filenameFormat, true);
-  if (!noteDate.isValid()) {
-    return null;
-  }
-  return noteDate;
+export function getAllCalendarEvents(): ICalendarEvent[] {
+  return Object.values(get(calendarEvents)).flat();
 }
 
 /**
- * Get all quarterly notes from vault
+ * The holidays, birthdays and other special dates from the data file set
+ * in the settings.
  */
-export function getAllQuarterlyNotes(): Record<string, TFile> {
-  const { vault } = window.app;
-  const { folder } = getQuarterlyNoteSettings();
-  
-  // If no folder specified, return empty (don't scan entire vault)
-  if (!folder) {
-    return {};
-  }
-  
-  const folderPath = normalizePath(folder);
-  const quarterlyNotesFolder = vault.getAbstractFileByPath(folderPath);
-  
-  if (!quarterlyNotesFolder) {
-    return {};
-  }
-  
-  const quarterlyNotes: Record<string, TFile> = {};
-  Vault.recurseChildren(quarterlyNotesFolder, (note) => {
-    if (note instanceof ObsidianTFile) {
-      const date = getDateFromQuarterlyFile(note);
-      if (date) {
-        const dateString = getQuarterlyDateUID(date);
-        quarterlyNotes[dateString] = note;
-      }
+function createSpecialDatesStore() {
+  const store = writable<ISpecialDate[]>([]);
+
+  const isDataFile = (path: string): boolean => {
+    const dataFile = get(settings).specialDatesFile.trim();
+    return !!dataFile && normalizePath(dataFile) === path;
+  };
+
+  const indexFile = async (file: TFile): Promise<void> => {
+    if (isDataFile(file.path)) {
+      store.set(await getSpecialDates(file));
     }
-  });
-  return quarterlyNotes;
+  };
+
+  return {
+    indexFile,
+    remove: (path: string): void => {
+      if (isDataFile(path)) {
+        store.set([]);
+      }
+    },
+    rename: async (file: TAbstractFile, oldPath: string): Promise<void> => {
+      if (isDataFile(oldPath)) {
+        store.set([]);
+      }
+      if (file instanceof TFile) {
+        await indexFile(file);
+      }
+    },
+    reindex: async (): Promise<void> => {
+      const path = normalizePath(get(settings).specialDatesFile.trim());
+      const file = window.app.vault.getAbstractFileByPath(path);
+      store.set(
+        file instanceof TFile && isDataFile(file.path)
+          ? await getSpecialDates(file)
+          : []
+      );
+    },
+    subscribe: store.subscribe,
+  };
+}
+
+export const specialDates = createSpecialDatesStore();
+
+export interface IFileActivity {
+  file: TFile;
+  // Both formatted as YYYY-MM-DD
+  createdOn: string;
+  modifiedOn: string;
 }
 
 /**
- * Get quarterly note for a specific date
+ * The day every file in the vault was created and last modified on,
+ * keyed by path.
  */
-export function getQuarterlyNote(date: moment.Moment, quarterlyNotes: Record<string, TFile>): TFile | null {
-  return quarterlyNotes[getQuarterlyDateUID(date)] ?? null;
+function createFilesTouchedStore() {
+  const store = writable<Record<string, IFileActivity>>({});
+
+  const getActivity = (file: TFile): IFileActivity => ({
+    file,
+    createdOn: window.moment(file.stat.ctime).format("YYYY-MM-DD"),
+    modifiedOn: window.moment(file.stat.mtime).format("YYYY-MM-DD"),
+  });
+
+  const removeWhere = (predicate: (path: string) => boolean): void => {
+    store.update((activity) => {
+      const remaining = { ...activity };
+      Object.keys(remaining)
+        .filter(predicate)
+        .forEach((path) => delete remaining[path]);
+      return remaining;
+    });
+  };
+
+  const add = (file: TAbstractFile): void => {
+    const current = get(store);
+    const added: Record<string, IFileActivity> = {};
+    getFilesIn(file).forEach((f) => {
+      const activity = getActivity(f);
+      const previous = current[f.path];
+      // Most edits happen on a day the file was already touched on
+      if (
+        previous?.file !== f ||
+        previous.createdOn !== activity.createdOn ||
+        previous.modifiedOn !== activity.modifiedOn
+      ) {
+        added[f.path] = activity;
+      }
+    });
+    if (Object.keys(added).length) {
+      store.update((activity) => ({ ...activity, ...added }));
+    }
+  };
+
+  return {
+    add,
+    /**
+     * Forget the file at `path`, or all files below it if it was a folder.
+     */
+    remove: (path: string): void =>
+      removeWhere((p) => p === path || p.startsWith(`${path}/`)),
+    rename: (file: TAbstractFile, oldPath: string): void => {
+      removeWhere((p) => p === oldPath || p.startsWith(`${oldPath}/`));
+      add(file);
+    },
+    reindex: (): void => {
+      const activity: Record<string, IFileActivity> = {};
+      window.app.vault.getFiles().forEach((file) => {
+        activity[file.path] = getActivity(file);
+      });
+      store.set(activity);
+    },
+    subscribe: store.subscribe,
+  };
 }
 
+export const filesTouched = createFilesTouchedStore();
+
 /**
- * Get all yearly notes from vault
+ * The files created and modified within the period that contains `date`.
+ * A file that was created and modified on the same day is only listed as
+ * created.
  */
-export function getAllYearlyNotes(): Record<string, TFile> {
-  const { vault } = window.app;
-  const { folder } = getYearlyNoteSettings();
-  
-  // If no folder specified, return empty (don't scan entire vault)
-  if (!folder) {
-    return {};
-  }
-  
-  const folderPath = normalizePath(folder);
-  const yearlyNotesFolder = vault.getAbstractFileByPath(folderPath);
-  
-  if (!yearlyNotesFolder) {
-    return {};
-  }
-  
-  const yearlyNotes: Record<string, TFile> = {};
-  Vault.recurseChildren(yearlyNotesFolder, (note) => {
-    if (note instanceof ObsidianTFile) {
-      const date = getDateFromYearlyFile(note);
-      if (date) {
-        const dateString = getYearlyDateUID(date);
-        yearlyNotes[dateString] = note;
-      }
+export function getFilesTouchedIn(
+  activity: Record<string, IFileActivity>,
+  date: Moment,
+  granularity: IGranularity
+): { created: TFile[]; modified: TFile[] } {
+  const start = getPeriodStart(date, granularity).format("YYYY-MM-DD");
+  const end = getPeriodEnd(date, granularity).format("YYYY-MM-DD");
+  const isInPeriod = (day: string) => day >= start && day <= end;
+
+  const created: TFile[] = [];
+  const modified: TFile[] = [];
+  Object.values(activity || {}).forEach(({ file, createdOn, modifiedOn }) => {
+    if (isInPeriod(createdOn)) {
+      created.push(file);
+    } else if (isInPeriod(modifiedOn)) {
+      modified.push(file);
     }
   });
-  return yearlyNotes;
+  return { created, modified };
+}
+
+export interface IDatedNote {
+  file: TFile;
+  // Formatted as YYYY-MM-DD
+  dates: string[];
 }
 
 /**
- * Get yearly note for a specific date
+ * The days in the date property of a note's frontmatter. The property may
+ * hold a single date or a list of them; times are ignored.
  */
-export function getYearlyNote(date: moment.Moment, yearlyNotes: Record<string, TFile>): TFile | null {
-  return yearlyNotes[getYearlyDateUID(date)] ?? null;
+function getDatesFromProperty(file: TFile, property: string): string[] {
+  const frontmatter = window.app.metadataCache.getFileCache(file)?.frontmatter;
+  const value = property ? frontmatter?.[property] : null;
+  if (!value) {
+    return [];
+  }
+  return [value]
+    .flat()
+    .map((item) => window.moment(String(item).slice(0, 10), "YYYY-MM-DD", true))
+    .filter((date) => date.isValid())
+    .map((date) => date.format("YYYY-MM-DD"));
 }
 
-function createDailyNotesStore() {
-  let hasError = false;
-  const store = writable<Record<string, TFile>>(null);
-  return {
-    reindex: () => {
-      try {
-        const dailyNotes = getAllDailyNotes();
-        store.set(dailyNotes);
-        hasError = false;
-      } catch (err) {
-        if (!hasError) {
-          // Avoid error being shown multiple times
-          console.log("[Calendar] Failed to find daily notes folder", err);
-        }
-        store.set({});
-        hasError = true;
-      }
-    },
-    ...store,
-  };
-}
+/**
+ * Notes anywhere in the vault that have a date in their frontmatter,
+ * keyed by path. Periodic notes are left out, they are shown already.
+ */
+function createDatedNotesStore() {
+  const store = writable<Record<string, IDatedNote>>({});
 
-function createWeeklyNotesStore() {
-  let hasError = false;
-  const store = writable<Record<string, TFile>>(null);
-  return {
-    reindex: () => {
-      try {
-        const weeklyNotes = getAllWeeklyNotes();
-        store.set(weeklyNotes);
-        hasError = false;
-      } catch (err) {
-        if (!hasError) {
-          // Avoid error being shown multiple times
-          console.log("[Calendar] Failed to find weekly notes folder", err);
-        }
-        store.set({});
-        hasError = true;
-      }
-    },
-    ...store,
+  const getDatedNote = (file: TFile): IDatedNote | null => {
+    if (file.extension !== "md" || getDateUIDFromFile(file)) {
+      return null;
+    }
+    const dates = getDatesFromProperty(file, get(settings).dateProperty);
+    return dates.length ? { file, dates } : null;
   };
-}
 
-function createMonthlyNotesStore() {
-  let hasError = false;
-  const store = writable<Record<string, TFile>>(null);
-  return {
-    reindex: () => {
-      try {
-        const monthlyNotes = getAllMonthlyNotes();
-        store.set(monthlyNotes);
-        hasError = false;
-      } catch (err) {
-        if (!hasError) {
-          // Avoid error being shown multiple times
-          console.log("[Calendar] Failed to find monthly notes folder", err);
-        }
-        store.set({});
-        hasError = true;
-      }
-    },
-    ...store,
+  const removeWhere = (predicate: (path: string) => boolean): void => {
+    const paths = Object.keys(get(store)).filter(predicate);
+    if (!paths.length) {
+      return;
+    }
+    store.update((notes) => {
+      const remaining = { ...notes };
+      paths.forEach((path) => delete remaining[path]);
+      return remaining;
+    });
   };
-}
 
-function createQuarterlyNotesStore() {
-  let hasError = false;
-  const store = writable<Record<string, TFile>>(null);
-  return {
-    reindex: () => {
-      try {
-        const notes = getAllQuarterlyNotes();
-        store.set(notes);
-        hasError = false;
-      } catch (err) {
-        if (!hasError) {
-          console.log("[Calendar] Failed to find quarterly notes folder", err);
-        }
-        store.set({});
-        hasError = true;
+  const indexFile = (file: TFile): void => {
+    const note = getDatedNote(file);
+    const previous = get(store)[file.path];
+    if (note) {
+      if (previous?.dates.join() !== note.dates.join()) {
+        store.update((notes) => ({ ...notes, [file.path]: note }));
       }
-    },
-    ...store,
+    } else if (previous) {
+      removeWhere((path) => path === file.path);
+    }
   };
-}
 
-function createYearlyNotesStore() {
-  let hasError = false;
-  const store = writable<Record<string, TFile>>(null);
   return {
-    reindex: () => {
-      try {
-        const notes = getAllYearlyNotes();
-        store.set(notes);
-        hasError = false;
-      } catch (err) {
-        if (!hasError) {
-          console.log("[Calendar] Failed to find yearly notes folder", err);
+    indexFile,
+    /**
+     * Forget the note at `path`, or all notes below it if it was a folder.
+     */
+    remove: (path: string): void =>
+      removeWhere((p) => p === path || p.startsWith(`${path}/`)),
+    rename: (file: TAbstractFile, oldPath: string): void => {
+      removeWhere((p) => p === oldPath || p.startsWith(`${oldPath}/`));
+      getFilesIn(file).forEach(indexFile);
+    },
+    reindex: (): void => {
+      const notes: Record<string, IDatedNote> = {};
+      window.app.vault.getMarkdownFiles().forEach((file) => {
+        const note = getDatedNote(file);
+        if (note) {
+          notes[file.path] = note;
         }
-        store.set({});
-        hasError = true;
-      }
+      });
+      store.set(notes);
     },
-    ...store,
+    subscribe: store.subscribe,
   };
 }
 
-export const settings = writable<ISettings>(defaultSettings);
-export const dailyNotes = createDailyNotesStore();
-export const weeklyNotes = createWeeklyNotesStore();
-export const monthlyNotes = createMonthlyNotesStore();
-export const quarterlyNotes = createQuarterlyNotesStore();
-export const yearlyNotes = createYearlyNotesStore();
+export const datedNotes = createDatedNotesStore();
+
+export function getDatedNotesOn(
+  notes: Record<string, IDatedNote>,
+  date: Moment
+): TFile[] {
+  const day = date.format("YYYY-MM-DD");
+  return Object.values(notes || {})
+    .filter(({ dates }) => dates.includes(day))
+    .map(({ file }) => file)
+    .sort((a, b) => a.basename.localeCompare(b.basename));
+}
 
 function createSelectedFileStore() {
   const store = writable<string>(null);
@@ -304,3 +577,21 @@ function createSelectedFileStore() {
 
 export const activeFile = createSelectedFileStore();
 
+function createSourcesStore() {
+  const store = writable<ICalendarSource[]>([]);
+
+  return {
+    register: (source: ICalendarSource) => {
+      store.update((sources) =>
+        sources.includes(source) ? sources : [...sources, source]
+      );
+    },
+    unregister: (source: ICalendarSource) => {
+      store.update((sources) => sources.filter((s) => s !== source));
+    },
+    subscribe: store.subscribe,
+  };
+}
+
+export const sources = createSourcesStore();
+
@@ -1,5 +1,6 @@
-import type { TFile } from "obsidian";
-import { getDateFromFile, getDateUID } from "obsidian-daily-notes-interface";
+import { App, TFile } from "obsidian";
+
+import { getDateFromFile, getDateUID, getGranularities } from "src/granularity";
 
 export const classList = (obj: Record<string, boolean>): string[] => {
   return Object.entries(obj)
@@ -7,6 +8,40 @@ export const classList = (obj: Record<string, boolean>): string[] => {
     .map(([k, _k]) => k);
 };
 
+function isMacOS(): boolean {
+  return navigator.appVersion.indexOf("Mac") !== -1;
+}
+
+export function isMetaPressed(e: MouseEvent | KeyboardEvent): boolean {
+  return isMacOS() ? e.metaKey : e.ctrlKey;
+}
+
+/**
+ * The files being dragged from the file explorer, if any.
+ */
+export function getDraggedFiles(app: App): TFile[] {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const draggable = (<any>app).dragManager?.draggable;
+  if (draggable?.type === "file") {
+    return [draggable.file];
+  }
+  if (draggable?.type === "files") {
+    return draggable.files.filter((file: unknown) => file instanceof TFile);
+  }
+  return [];
+}
+
+/**
+ * The names of the first few files, followed by how many more there are.
+ */
+export function getFileNames(files: TFile[], maxFiles = 5): string {
+  const names = files.slice(0, maxFiles).map((file) => file.basename);
+  if (files.length > maxFiles) {
+    names.push(`+${files.length - maxFiles} more`);
+  }
+  return names.join(", ");
+}
+
 export function clamp(
   num: number,
   lowerBound: number,
@@ -35,7 +70,7 @@ export function partition(
 
 /**
  * Lookup the dateUID for a given file. It compares the filename
- * to the daily and weekly note formats to find a match.
+ * to the format of each granularity, finest first, to find a match.
  *
  * @param file
  */
@@ -45,14 +80,11 @@ export function getDateUIDFromFile(file: TFile | null): string {
   }
 
   // TODO: I'm not checking the path!
-  let date = getDateFromFile(file, "day");
-  if (date) {
-    return getDateUID(date, "day");
-  }
-
-  date = getDateFromFile(file, "week");
-  if (date) {
-    return getDateUID(date, "week");
+  for (const granularity of getGranularities()) {
+    const date = getDateFromFile(file, granularity);
+    if (date) {
+      return getDateUID(date, granularity);
+    }
   }
   return null;
 }
@@ -1,32 +1,59 @@
 import type { Moment } from "moment";
 import {
-  getDailyNote,
-  getDailyNoteSettings,
-  getDateFromFile,
-  getWeeklyNote,
-  getWeeklyNoteSettings,
-} from "obsidian-daily-notes-interface";
-import { FileView, TFile, ItemView, WorkspaceLeaf } from "obsidian";
+  FileView,
+  TAbstractFile,
+  TFile,
+  ItemView,
+  Menu,
+  ViewStateResult,
+  WorkspaceLeaf,
+} from "obsidian";
+import type { ICalendarSource } from "obsidian-calendar-ui";
 import { get } from "svelte/store";
 
 import { TRIGGER_ON_OPEN, VIEW_TYPE_CALENDAR } from "src/constants";
-import { tryToCreateDailyNote } from "src/io/dailyNotes";
-import { tryToCreateWeeklyNote } from "src/io/weeklyNotes";
-import type { ISettings } from "src/settings";
+import {
+  formatNoteName,
+  getDateFromFile,
+  getDateFromPath,
+  getGranularities,
+  getPeriodicNote,
+  getPeriodStart,
+  IGranularity,
+} from "src/granularity";
+import { appendLinks, setDateProperty } from "src/io/attachments";
+import {
+  openOrCreatePeriodicNote,
+  openPeriodicNote,
+  tryToCreatePeriodicNote,
+} from "src/io/periodicNotes";
+import { displayModes, IDisplayMode, ISettings } from "src/settings";
 
 import Calendar from "./ui/Calendar.svelte";
-import { showFileMenu } from "./ui/fileMenu";
-import { activeFile, dailyNotes, weeklyNotes, monthlyNotes, quarterlyNotes, yearlyNotes, settings } from "./ui/stores";
+import { createDaySummaryPopover } from "./ui/daySummaryPopover";
+import { showEmptyPeriodMenu, showFileMenu } from "./ui/fileMenu";
+import { DayNoteSuggestModal } from "./ui/modal";
 import {
-  customTagsSource,
-  streakSource,
-  tasksSource,
-  wordCountSource,
-} from "./ui/sources";
+  activeFile,
+  calendarEvents,
+  dailyNotes,
+  datedNotes,
+  dueTasks,
+  filesTouched,
+  getDatedNotesOn,
+  getNotesStore,
+  settings,
+  sources,
+  specialDates,
+} from "./ui/stores";
+import { getDraggedFiles } from "./ui/utils";
 
 export default class CalendarView extends ItemView {
   private calendar: Calendar;
   private settings: ISettings;
+  // Overrides the display mode from the settings for this view only
+  private displayMode: IDisplayMode = null;
+  private daySummary = createDaySummaryPopover();
 
   constructor(leaf: WorkspaceLeaf) {
     super(leaf);
@@ -38,6 +65,7 @@ export default class CalendarView extends ItemView {
     this.onFileCreated = this.onFileCreated.bind(this);
     this.onFileDeleted = this.onFileDeleted.bind(this);
     this.onFileModified = this.onFileModified.bind(this);
+    this.onFileRenamed = this.onFileRenamed.bind(this);
     this.onFileOpen = this.onFileOpen.bind(this);
 
     this.onHoverDay = this.onHoverDay.bind(this);
@@ -46,6 +74,8 @@ export default class CalendarView extends ItemView {
     this.onContextMenuDay = this.onContextMenuDay.bind(this);
     this.onContextMenuWeek = this.onContextMenuWeek.bind(this);
 
+    this.onDropOnDay = this.onDropOnDay.bind(this);
+
     this.registerEvent(
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       (<any>this.app.workspace).on(
@@ -56,6 +86,7 @@ export default class CalendarView extends ItemView {
     this.registerEvent(this.app.vault.on("create", this.onFileCreated));
     this.registerEvent(this.app.vault.on("delete", this.onFileDeleted));
     this.registerEvent(this.app.vault.on("modify", this.onFileModified));
+    this.registerEvent(this.app.vault.on("rename", this.onFileRenamed));
     this.registerEvent(this.app.workspace.on("file-open", this.onFileOpen));
 
     this.settings = null;
@@ -64,6 +95,7 @@ export default class CalendarView extends ItemView {
 
       // Refresh the calendar if settings change
       if (this.calendar) {
+        this.calendar.$set({ displayMode: this.getDisplayMode() });
         this.calendar.tick();
       }
     });
@@ -81,7 +113,46 @@ export default class CalendarView extends ItemView {
     return "calendar-with-checkmark";
   }
 
+  getState(): Record<string, unknown> {
+    return { ...super.getState(), displayMode: this.displayMode };
+  }
+
+  async setState(
+    state: { displayMode?: IDisplayMode },
+    result: ViewStateResult
+  ): Promise<void> {
+    this.displayMode = state?.displayMode ?? null;
+    this.calendar?.$set({ displayMode: this.getDisplayMode() });
+    await super.setState(state, result);
+  }
+
+  onPaneMenu(menu: Menu, source: string): void {
+    super.onPaneMenu(menu, source);
+
+    const currentMode = this.getDisplayMode();
+    Object.entries(displayModes).forEach(([mode, label]) => {
+      menu.addItem((item) =>
+        item
+          .setTitle(label)
+          .setIcon("calendar")
+          .setChecked(mode === currentMode)
+          .onClick(() => this.setDisplayMode(mode as IDisplayMode))
+      );
+    });
+  }
+
+  private getDisplayMode(): IDisplayMode {
+    return this.displayMode || this.settings?.displayMode || "month";
+  }
+
+  public setDisplayMode(displayMode: IDisplayMode): void {
+    this.displayMode = displayMode;
+    this.calendar?.$set({ displayMode });
+    this.app.workspace.requestSaveLayout();
+  }
+
   onClose(): Promise<void> {
+    this.daySummary.hide();
     if (this.calendar) {
       this.calendar.$destroy();
     }
@@ -89,15 +160,15 @@ export default class CalendarView extends ItemView {
   }
 
   async onOpen(): Promise<void> {
-    // Integration point: external plugins can listen for `calendar:open`
-    // to feed in additional sources.
-    const sources = [
-      customTagsSource,
-      streakSource,
-      wordCountSource,
-      tasksSource,
-    ];
-    this.app.workspace.trigger(TRIGGER_ON_OPEN, sources);
+    // Legacy integration point: listeners of `calendar:open` can still push
+    // sources into this array, but they only apply to this view. Prefer
+    // `CalendarPlugin.registerSource`.
+    const registeredSources = get(sources);
+    const openSources = [...registeredSources];
+    this.app.workspace.trigger(TRIGGER_ON_OPEN, openSources);
+    const viewSources = openSources.filter(
+      (source) => !registeredSources.includes(source)
+    );
 
     this.calendar = new Calendar({
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -109,9 +180,23 @@ export default class CalendarView extends ItemView {
         onHoverWeek: this.onHoverWeek,
         onContextMenuDay: this.onContextMenuDay,
         onContextMenuWeek: this.onContextMenuWeek,
-        sources,
+        onDropOnDay: this.onDropOnDay,
+        displayMode: this.getDisplayMode(),
+        sources: openSources,
       },
     });
+
+    this.register(
+      sources.subscribe((value: ICalendarSource[]) => {
+        this.calendar?.$set({ sources: [...value, ...viewSources] });
+      })
+    );
+    // Tasks can be due on any day, no matter which file they live in
+    this.register(dueTasks.subscribe(() => this.calendar?.tick()));
+    this.register(filesTouched.subscribe(() => this.calendar?.tick()));
+    this.register(calendarEvents.subscribe(() => this.calendar?.tick()));
+    this.register(datedNotes.subscribe(() => this.calendar?.tick()));
+    this.register(specialDates.subscribe(() => this.calendar?.tick()));
   }
 
   onHoverDay(
@@ -119,18 +204,12 @@ export default class CalendarView extends ItemView {
     targetEl: EventTarget,
     isMetaPressed: boolean
   ): void {
-    if (!isMetaPressed) {
-      return;
+    if (isMetaPressed) {
+      this.daySummary.hide();
+      this.triggerLinkHover(date, "day", targetEl);
+    } else if (this.settings.showDaySummary) {
+      this.daySummary.show(date, targetEl as HTMLElement);
     }
-    const { format } = getDailyNoteSettings();
-    const note = getDailyNote(date, get(dailyNotes));
-    this.app.workspace.trigger(
-      "link-hover",
-      this,
-      targetEl,
-      date.format(format),
-      note?.path
-    );
   }
 
   onHoverWeek(
@@ -141,105 +220,136 @@ export default class CalendarView extends ItemView {
     if (!isMetaPressed) {
       return;
     }
-    const note = getWeeklyNote(date, get(weeklyNotes));
-    const { format } = getWeeklyNoteSettings();
+    this.triggerLinkHover(date, "week", targetEl);
+  }
+
+  private triggerLinkHover(
+    date: Moment,
+    granularity: IGranularity,
+    targetEl: EventTarget
+  ): void {
+    const note = getPeriodicNote(
+      date,
+      granularity,
+      get(getNotesStore(granularity))
+    );
     this.app.workspace.trigger(
       "link-hover",
       this,
       targetEl,
-      date.format(format),
+      formatNoteName(date, granularity),
       note?.path
     );
   }
 
   private onContextMenuDay(date: Moment, event: MouseEvent): void {
-    const note = getDailyNote(date, get(dailyNotes));
+    this.showPeriodicNoteMenu(date, "day", event);
+  }
+
+  private onContextMenuWeek(date: Moment, event: MouseEvent): void {
+    this.showPeriodicNoteMenu(date, "week", event);
+  }
+
+  private showPeriodicNoteMenu(
+    date: Moment,
+    granularity: IGranularity,
+    event: MouseEvent
+  ): void {
+    const note = getPeriodicNote(
+      date,
+      granularity,
+      get(getNotesStore(granularity))
+    );
+    const position = { x: event.pageX, y: event.pageY };
     if (!note) {
-      // If no file exists for a given day, show nothing.
+      showEmptyPeriodMenu(this.app, date, granularity, position);
       return;
     }
-    showFileMenu(this.app, note, {
-      x: event.pageX,
-      y: event.pageY,
-    });
+    showFileMenu(this.app, note, date, granularity, position);
   }
 
-  private onContextMenuWeek(date: Moment, event: MouseEvent): void {
-    const note = getWeeklyNote(date, get(weeklyNotes));
-    if (!note) {
-      // If no file exists for a given day, show nothing.
+  /**
+   * Attach files dragged from the file explorer to the day they were
+   * dropped on.
+   */
+  private async onDropOnDay(date: Moment, _event: DragEvent): Promise<void> {
+    let files = getDraggedFiles(this.app);
+    if (!files.length) {
       return;
     }
-    showFileMenu(this.app, note, {
-      x: event.pageX,
-      y: event.pageY,
-    });
+
+    if (this.settings.dropAction === "date-property") {
+      // Only notes have frontmatter, other files are linked instead
+      const notes = files.filter((file) => file.extension === "md");
+      const property = this.settings.dateProperty || "date";
+      await Promise.all(
+        notes.map((note) => setDateProperty(note, date, property))
+      );
+      files = files.filter((file) => file.extension !== "md");
+      if (!files.length) {
+        return;
+      }
+    }
+
+    const dailyNote = getPeriodicNote(date, "day", get(dailyNotes));
+    if (dailyNote) {
+      await appendLinks(dailyNote, files);
+      return;
+    }
+    await tryToCreatePeriodicNote(
+      date,
+      "day",
+      false,
+      this.settings,
+      async (note: TFile) => {
+        activeFile.setFile(note);
+        await appendLinks(note, files);
+      }
+    );
   }
 
   private onNoteSettingsUpdate(): void {
-    dailyNotes.reindex();
-    weeklyNotes.reindex();
-    monthlyNotes.reindex();
-    quarterlyNotes.reindex();
-    yearlyNotes.reindex();
     this.updateActiveFile();
   }
 
-  private async onFileDeleted(file: TFile): Promise<void> {
-    if (getDateFromFile(file, "day")) {
-      dailyNotes.reindex();
-      this.updateActiveFile();
-    }
-    if (getDateFromFile(file, "week")) {
-      weeklyNotes.reindex();
-      this.updateActiveFile();
-    }
-    if (getDateFromFile(file, "month")) {
-      monthlyNotes.reindex();
-      this.updateActiveFile();
-    }
-    if (getDateFromFile(file, "quarter")) {
-      quarterlyNotes.reindex();
-      this.updateActiveFile();
-    }
-    if (getDateFromFile(file, "year")) {
-      yearlyNotes.reindex();
+  private isPeriodicNote(file: TAbstractFile, path = file.path): boolean {
+    return getGranularities().some(
+      (granularity) =>
+        getDateFromFile(file, granularity) ||
+        getDateFromPath(path, granularity)
+    );
+  }
+
+  // The plugin keeps the notes stores in sync with the vault; the view
+  // only has to refresh what it displays.
+
+  private async onFileDeleted(file: TAbstractFile): Promise<void> {
+    if (this.isPeriodicNote(file)) {
       this.updateActiveFile();
     }
   }
 
-  private async onFileModified(file: TFile): Promise<void> {
-    const date = getDateFromFile(file, "day") || getDateFromFile(file, "week") || getDateFromFile(file, "month") || getDateFromFile(file, "quarter") || getDateFromFile(file, "year");
-    if (date && this.calendar) {
+  private async onFileModified(file: TAbstractFile): Promise<void> {
+    if (this.isPeriodicNote(file) && this.calendar) {
       this.calendar.tick();
     }
   }
 
-  private onFileCreated(file: TFile): void {
+  private onFileCreated(file: TAbstractFile): void {
     if (this.app.workspace.layoutReady && this.calendar) {
-      if (getDateFromFile(file, "day")) {
-        dailyNotes.reindex();
-        this.calendar.tick();
-      }
-      if (getDateFromFile(file, "week")) {
-        weeklyNotes.reindex();
-        this.calendar.tick();
-      }
-      if (getDateFromFile(file, "month")) {
-        monthlyNotes.reindex();
-        this.calendar.tick();
-      }
-      if (getDateFromFile(file, "quarter")) {
-        quarterlyNotes.reindex();
-        this.calendar.tick();
-      }
-      if (getDateFromFile(file, "year")) {
-        yearlyNotes.reindex();
+      if (this.isPeriodicNote(file)) {
         this.calendar.tick();
       }
     }
   }
 
+  private onFileRenamed(file: TAbstractFile, oldPath: string): void {
+    // Moving a folder can move any number of notes at once
+    if (!(file instanceof TFile) || this.isPeriodicNote(file, oldPath)) {
+      this.updateActiveFile();
+    }
+  }
+
   public onFileOpen(_file: TFile): void {
     if (this.app.workspace.layoutReady) {
       this.updateActiveFile();
@@ -260,24 +370,23 @@ export default class CalendarView extends ItemView {
     }
   }
 
+  public focusCalendar(): void {
+    this.calendar?.focusCalendar();
+  }
+
   public revealActiveNote(): void {
-    const { moment } = window;
     const { activeLeaf } = this.app.workspace;
 
     if (activeLeaf.view instanceof FileView) {
-      // Check to see if the active note is a daily-note
-      let date = getDateFromFile(activeLeaf.view.file, "day");
-      if (date) {
-        this.calendar.$set({ displayedMonth: date });
-        return;
-      }
-
-      // Check to see if the active note is a weekly-note
-      const { format } = getWeeklyNoteSettings();
-      date = moment(activeLeaf.view.file.basename, format, true);
-      if (date.isValid()) {
-        this.calendar.$set({ displayedMonth: date });
-        return;
+      // Check to see if the active note is a periodic note
+      for (const granularity of getGranularities()) {
+        const date = getDateFromFile(activeLeaf.view.file, granularity);
+        if (date) {
+          this.calendar.$set({
+            displayedMonth: getPeriodStart(date, granularity),
+          });
+          return;
+        }
       }
     }
   }
@@ -286,55 +395,56 @@ export default class CalendarView extends ItemView {
     date: Moment,
     inNewSplit: boolean
   ): Promise<void> {
-    const { workspace } = this.app;
-
-    const startOfWeek = date.clone().startOf("week");
-
-    const existingFile = getWeeklyNote(date, get(weeklyNotes));
-
-    if (!existingFile) {
-      // File doesn't exist
-      tryToCreateWeeklyNote(startOfWeek, inNewSplit, this.settings, (file) => {
+    await openOrCreatePeriodicNote(
+      getPeriodStart(date, "week"),
+      "week",
+      inNewSplit,
+      this.settings,
+      (file: TFile) => {
         activeFile.setFile(file);
-      });
-      return;
-    }
-
-    const leaf = inNewSplit
-      ? workspace.splitActiveLeaf()
-      : workspace.getUnpinnedLeaf();
-    await leaf.openFile(existingFile);
-
-    activeFile.setFile(existingFile);
-    workspace.setActiveLeaf(leaf, true, true)
+      }
+    );
   }
 
   async openOrCreateDailyNote(
     date: Moment,
     inNewSplit: boolean
   ): Promise<void> {
-    const { workspace } = this.app;
-    const existingFile = getDailyNote(date, get(dailyNotes));
-    if (!existingFile) {
-      // File doesn't exist
-      tryToCreateDailyNote(
-        date,
-        inNewSplit,
-        this.settings,
-        (dailyNote: TFile) => {
-          activeFile.setFile(dailyNote);
-        }
-      );
+    const dailyNote = getPeriodicNote(date, "day", get(dailyNotes));
+    const notes = getDatedNotesOn(get(datedNotes), date).filter(
+      (note) => note !== dailyNote
+    );
+    if (!notes.length) {
+      await this.openOrCreateDailyNoteWithoutPicker(date, inNewSplit);
       return;
     }
+    // A single dated note opens directly. With several notes, or on a
+    // modifier-click, you choose which note to open.
+    if (!dailyNote && notes.length === 1 && !inNewSplit) {
+      await openPeriodicNote(notes[0], inNewSplit);
+      return;
+    }
+    new DayNoteSuggestModal(this.app, dailyNote, notes, (note) => {
+      if (note && note !== dailyNote) {
+        openPeriodicNote(note, inNewSplit);
+      } else {
+        this.openOrCreateDailyNoteWithoutPicker(date, inNewSplit);
+      }
+    }).open();
+  }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const mode = (this.app.vault as any).getConfig("defaultViewMode");
-    const leaf = inNewSplit
-      ? workspace.splitActiveLeaf()
-      : workspace.getUnpinnedLeaf();
-    await leaf.openFile(existingFile, { active : true, mode });
-
-    activeFile.setFile(existingFile);
+  private async openOrCreateDailyNoteWithoutPicker(
+    date: Moment,
+    inNewSplit: boolean
+  ): Promise<void> {
+    await openOrCreatePeriodicNote(
+      date,
+      "day",
+      inNewSplit,
+      this.settings,
+      (dailyNote: TFile) => {
+        activeFile.setFile(dailyNote);
+      }
+    );
   }
 }